@@ -1,193 +1,307 @@
-import { TagFilesAndNotesSettings } from './types';
-import { requestUrl, RequestUrlParam, RequestUrlResponse, Notice } from 'obsidian';
-import { retryWithDelay} from '../libs/utils'
+import { App, Notice } from 'obsidian';
+import { AIProvider, TagFilesAndNotesSettings } from './types';
+import { getProvider } from '../providers/registry';
+import { CancellationToken } from '../libs/cancellation';
+import { CompletionRequest, ImageTagRequest, ImageTagResult, TagProvider, TokenUsage } from '../providers/types';
+import { ERROR_MESSAGES, TIMEOUTS } from '../libs/constants';
+import { FileToNoteError, handleAIError, isCancellationError } from '../libs/errorHandling';
+import { estimateTokens } from '../libs/chunking';
+import { getUsageLedger, estimateCost, formatCost, getModelPrice } from './usageLedger';
 
-
-interface ollamaAiResponse {
-    response: string;
-    model: string;
-    created_at: string;
-    done: boolean;
+/**
+ * Per-call details for an AI request
+ */
+export interface AIRequestContext {
+    cancellation?: CancellationToken;
+    /** The file being tagged, recorded in the usage ledger */
+    sourcePath?: string;
 }
 
-interface OpenAIResponse {
-    choices: Array<{
-        message: {
-            content: string;
-        };
-    }>;
+
+/**
+ * Validates the AI provider configuration
+ * @param settings Plugin settings
+ * @returns True if the AI provider is properly configured, false otherwise
+ */
+export function isAIProviderConfigured(settings: TagFilesAndNotesSettings): boolean {
+    // Any configured provider in the chain can do the work
+    return getProviderChain(settings).length > 0;
 }
 
+/**
+ * Get the providers to try in order: the selected provider, then the
+ * fallback providers, skipping duplicates and any that are not configured
+ * @param settings Plugin settings
+ * @returns Ordered provider ids
+ */
+export function getProviderChain(settings: TagFilesAndNotesSettings): AIProvider[] {
+    const chain: AIProvider[] = [];
+    [settings.aiProvider, ...settings.fallbackProviders].forEach(id => {
+        const provider = getProvider(id);
+        if (provider && !chain.includes(id) && provider.isConfigured(settings)) {
+            chain.push(id);
+        }
+    });
+    return chain;
+}
 
 /**
- * Common function to make API requests with proper error handling
- * @param requestParams Request parameters for requestUrl
- * @param errorPrefix Prefix for error messages
- * @returns The response from the API
+ * Run a generation step against each provider in the chain until one
+ * returns a result. Cancellation stops the chain; any other failure moves
+ * on to the next provider.
+ * @param settings Plugin settings
+ * @param app The Obsidian App instance
+ * @param input Whether the step needs text tagging, image tagging or free-form replies
+ * @param run Generates with one provider, returning null for an empty result
+ * @returns The first result and its provider, or null if every provider came back empty
  */
-export async function makeApiRequest(
-    requestParams: RequestUrlParam,
-    errorPrefix: string = 'API'
-): Promise<RequestUrlResponse> {
-    try {
-        const response = await requestUrl(requestParams);
-
-        if (response.status !== 200) {
-            let errorMessage = `${errorPrefix} request failed`;
-            try {
-                const errorData = response.json;
-                errorMessage = errorData.error?.message || `${errorPrefix} error (${response.status})`;
-            } catch (e) {
-                errorMessage = `${errorPrefix} error (${response.status})`;
+export async function runProviderChain<T>(
+    settings: TagFilesAndNotesSettings,
+    app: App,
+    input: 'text' | 'image' | 'completion',
+    run: (providerSettings: TagFilesAndNotesSettings) => Promise<T | null>
+): Promise<(T & { provider: AIProvider }) | null> {
+    const chain = getProviderChain(settings).filter(id => {
+        const provider = getProvider(id);
+        if (input === 'image') return !!provider?.generateFromImage;
+        if (input === 'completion') return !!provider?.complete;
+        return true;
+    });
+    if (chain.length === 0) {
+        const error = new Error(input === 'image'
+            ? ERROR_MESSAGES.AI_IMAGES_UNSUPPORTED(settings.aiProvider)
+            : input === 'completion'
+                ? ERROR_MESSAGES.AI_COMPLETION_UNSUPPORTED(settings.aiProvider)
+                : ERROR_MESSAGES.AI_CONFIG_MISSING);
+        handleAIError(settings.aiProvider, error, app);
+        throw error;
+    }
+
+    const empty = input === 'completion' ? 'nothing usable' : 'no tags';
+    let lastError: Error | null = null;
+    for (let i = 0; i < chain.length; i++) {
+        const provider = chain[i];
+        const next = chain[i + 1];
+        try {
+            const result = await run({ ...settings, aiProvider: provider });
+            if (result) {
+                return { ...result, provider };
+            }
+            console.log(`${provider} returned ${empty}`);
+            // The chain ended normally, so an earlier provider's failure is no longer the outcome
+            lastError = null;
+            if (next) {
+                new Notice(`${provider} returned ${empty}, trying ${next}`);
+            }
+        } catch (error) {
+            if (isCancellationError(error)) {
+                handleAIError(provider, error as Error, app);
+                throw error;
+            }
+            lastError = error as Error;
+            console.error(`Error generating with ${provider}:`, error);
+            if (next) {
+                new Notice(`${provider} failed, trying ${next}`);
+            } else {
+                handleAIError(provider, lastError, app);
             }
-            throw new Error(errorMessage);
         }
+    }
 
-        return response;
-    } catch (error) {
-        // Enhance error with rate limiting information if applicable
-        if (error.message.includes('429')) {
-            error.message = `${errorPrefix} rate limit exceeded. Please try again later.`;
-        }
-        throw error;
+    if (lastError) {
+        throw lastError;
     }
+    return null;
 }
 
+/**
+ * Check whether a request to the provider costs money with the current settings
+ */
+function isPaidRequest(provider: TagProvider, settings: TagFilesAndNotesSettings): boolean {
+    const price = getModelPrice(settings, provider.getModel(settings));
+    return !!provider.paid
+        || (!!provider.isPaid && provider.isPaid(settings))
+        || (!!price && (price.input > 0 || price.output > 0));
+}
+
+// Models already warned about this session, so the warning shows once per model
+const warnedUnpricedModels = new Set<string>();
 
 /**
- * Validates the AI provider configuration
+ * Tell the user once when a paid model has no price, since its cost is a guess
+ */
+function warnIfUnpriced(provider: TagProvider, settings: TagFilesAndNotesSettings): void {
+    const model = provider.getModel(settings);
+    if (!isPaidRequest(provider, settings) || getModelPrice(settings, model) || warnedUnpricedModels.has(model)) {
+        return;
+    }
+    warnedUnpricedModels.add(model);
+    new Notice(ERROR_MESSAGES.AI_MODEL_UNPRICED(model), TIMEOUTS.NOTICE_DURATION);
+}
+
+/**
+ * Stop paid requests once this month's recorded cost reaches the budget
+ * @throws FileToNoteError with code BUDGET_EXCEEDED
+ */
+function checkBudget(provider: TagProvider, settings: TagFilesAndNotesSettings): void {
+    const ledger = getUsageLedger();
+    if (!ledger || settings.monthlyBudget <= 0 || !isPaidRequest(provider, settings)) {
+        return;
+    }
+    if (ledger.getMonthTotals().cost >= settings.monthlyBudget) {
+        throw new FileToNoteError(
+            ERROR_MESSAGES.AI_BUDGET_EXCEEDED(provider.name, formatCost(settings.monthlyBudget)),
+            'BUDGET_EXCEEDED'
+        );
+    }
+}
+
+/**
+ * Run a provider request and record its token usage and cost in the ledger.
+ * When the provider does not report usage, tokens are estimated from the text.
+ * @param provider The provider handling the request
  * @param settings Plugin settings
- * @returns True if the AI provider is properly configured, false otherwise
+ * @param context The file being tagged
+ * @param estimateInput Text used to estimate input tokens if usage is not reported
+ * @param run Performs the request, passing usage to the given callback
+ * @param getOutput Text used to estimate output tokens if usage is not reported
  */
-export function isAIProviderConfigured(settings: TagFilesAndNotesSettings): boolean {
-    switch (settings.aiProvider) {
-        case 'openai':
-            return !!settings.openAIApiKey;
-        case 'gemini':
-            return !!settings.googleClientId && !!settings.googleClientSecret;
-        case 'ollama':
-            return true; // Ollama doesn't need API keys
-        case 'mistral':
-            return !!settings.mistralAiApiKey;
-        default:
-            return false;
+async function withUsageTracking<T>(
+    provider: TagProvider,
+    settings: TagFilesAndNotesSettings,
+    context: AIRequestContext,
+    estimateInput: string,
+    run: (onUsage: (usage: TokenUsage) => void) => Promise<T>,
+    getOutput: (result: T) => string
+): Promise<T> {
+    // Nothing leaves the plugin, so there is nothing to bill or record
+    if (provider.offline) {
+        return await run(() => {});
+    }
+
+    checkBudget(provider, settings);
+    warnIfUnpriced(provider, settings);
+
+    let reported: TokenUsage | null = null;
+    const startedAt = Date.now();
+    const result = await run(usage => {
+        reported = usage;
+    });
+
+    const ledger = getUsageLedger();
+    if (ledger) {
+        const model = provider.getModel(settings);
+        const usage: TokenUsage = reported || {
+            inputTokens: estimateTokens(estimateInput),
+            outputTokens: estimateTokens(getOutput(result))
+        };
+        await ledger.record({
+            timestamp: startedAt,
+            provider: provider.id,
+            model,
+            inputTokens: usage.inputTokens,
+            outputTokens: usage.outputTokens,
+            estimated: !reported,
+            cost: estimateCost(settings, model, usage.inputTokens, usage.outputTokens, isPaidRequest(provider, settings)),
+            durationMs: Date.now() - startedAt,
+            path: context.sourcePath
+        });
     }
+    return result;
 }
 
 /**
- * Generate tags using specified AI
+ * Generate tags using the configured AI provider
  * @param text The text to generate tags from
- * @param settings Plugin settings with Ollama configuration
+ * @param prompt The prepared prompt with variables replaced
+ * @param settings Plugin settings with provider configuration
+ * @param context Optional cancellation token and source file
  * @returns Array of generated tags
  */
 export async function getTagsFromAI(
     text: string,
+    prompt: string,
     settings: TagFilesAndNotesSettings,
+    context: AIRequestContext = {}
 ): Promise<string[]> {
-    try {
-        // Prepare the prompt by replacing variables
-        const finalPrompt = settings.aiPrompt
-            .replace('{{max_tags}}', settings.maxTags.toString())
-            .replace('{{max_words}}', settings.maxWordsPerTag.toString());
-
-        console.log('AI PROMPT', finalPrompt);
-
-        // Get tags from Ollama
-        switch (settings.aiProvider){
-            case 'ollama':
-                return await makeOllamaAiRequest(settings.aiProvider, settings.ollamaHost, settings.ollamaModel, finalPrompt, text);
-            case 'openai':
-                return await makeOpenAiRequest(settings.aiProvider,settings.openAIApiKey,finalPrompt, text)
+    const provider = getProvider(settings.aiProvider);
+    if (!provider) {
+        throw new Error(`Unknown AI provider: ${settings.aiProvider}`);
+    }
 
-        }
+    try {
+        console.log('AI PROMPT', prompt);
+        return await withUsageTracking(provider, settings, context, `${prompt}\n\n${text}`,
+            onUsage => provider.generate({
+                prompt,
+                text,
+                structured: settings.structuredOutput,
+                cancellation: context.cancellation,
+                onUsage
+            }, settings),
+            tags => tags.join(', ')
+        );
     } catch (error) {
         console.error('Error generating tags with ' + settings.aiProvider, error);
         throw error;
     }
-    return [];
 }
 
-
 /**
- * Make a request to the Ollama AI
+ * Generate tags for an image using the configured provider's vision model
+ * @param request The image and prompt
+ * @param settings Plugin settings with provider configuration
+ * @param sourcePath The image file, recorded in the usage ledger
+ * @returns Tags and an optional description of the image
  */
-async function makeOllamaAiRequest(
-    provider: string,
-    host: string,
-    model: string,
-    prompt: string,
-    text: string
-): Promise<string[]> {
-
-    
-    const response = await makeApiRequest({
-        url: `${host}/api/generate`,
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-            model: model,
-            prompt: `${prompt}\n\nText: ${text.slice(0, 4000)}`, // Limit text length
-            stream: false,
-            options: {
-                temperature: 0.3
-            }
-        })
-    }, provider);
-
-    const data = response.json as ollamaAiResponse;
-    console.log(response);
-    console.log('Data from '+provider, data);
-
-    // Parse the response to extract tags
-    const tags = data.response
-        .split(',')
-        .map(tag => tag.trim())
-        .filter(tag => tag.length > 0);
+export async function getImageTagsFromAI(
+    request: ImageTagRequest,
+    settings: TagFilesAndNotesSettings,
+    sourcePath?: string
+): Promise<ImageTagResult> {
+    const provider = getProvider(settings.aiProvider);
+    if (!provider?.generateFromImage) {
+        throw new Error(ERROR_MESSAGES.AI_IMAGES_UNSUPPORTED(provider?.name || settings.aiProvider));
+    }
 
-    return tags;
+    try {
+        const generateFromImage = provider.generateFromImage.bind(provider);
+        // Image tokens cannot be estimated from text, so only the prompt is counted
+        return await withUsageTracking(provider, settings, { sourcePath }, request.prompt,
+            onUsage => generateFromImage({ ...request, onUsage }, settings),
+            result => [result.description || '', ...result.tags].join(', ')
+        );
+    } catch (error) {
+        console.error('Error generating image tags with ' + settings.aiProvider, error);
+        throw error;
+    }
 }
 
-
 /**
- * Make a request to the OpenAI API
+ * Get a free-form reply, such as extracted fields or a summary, from the configured provider
+ * @param request The instructions, prompt and text
+ * @param settings Plugin settings with provider configuration
+ * @param context Optional cancellation token and source file
+ * @returns The reply text
  */
-async function makeOpenAiRequest(
-    provider: string,
-    text: string,
-    apiKey: string,
-    prompt: string
-): Promise<string[]> {
-    const makeRequest = async () => {
-        return await makeApiRequest({
-            url: 'https://api.openai.com/v1/chat/completions',
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${apiKey}`
-            },
-            body: JSON.stringify({
-                model: "gpt-3.5-turbo",
-                messages: [
-                    {
-                        "role": "system",
-                        "content": "You are a helpful assistant that generates tags for documents. Return only the tags as requested, no other text."
-                    },
-                    {
-                        "role": "user",
-                        "content": `${prompt}\n\nText: ${text.slice(0, 4000)}` // Limit text length to avoid token limits
-                    }
-                ],
-                temperature: 0.3 // Lower temperature for more focused responses
-            })
-        }, provider);
-    };
-
-    const response = await retryWithDelay(makeRequest, 2, 5000);
-    const data = response.json as OpenAIResponse;
-    
-    return data.choices[0]?.message?.content?.split(',')
-        .map(tag => tag.trim())
-        .filter(tag => tag.length > 0) || [];
-} 
+export async function getCompletionFromAI(
+    request: CompletionRequest,
+    settings: TagFilesAndNotesSettings,
+    context: AIRequestContext = {}
+): Promise<string> {
+    const provider = getProvider(settings.aiProvider);
+    if (!provider?.complete) {
+        throw new Error(ERROR_MESSAGES.AI_COMPLETION_UNSUPPORTED(provider?.name || settings.aiProvider));
+    }
+
+    try {
+        const complete = provider.complete.bind(provider);
+        return await withUsageTracking(provider, settings, context, `${request.system}\n\n${request.prompt}\n\n${request.text}`,
+            onUsage => complete({ ...request, cancellation: context.cancellation, onUsage }, settings),
+            reply => reply
+        );
+    } catch (error) {
+        console.error('Error getting a reply from ' + settings.aiProvider, error);
+        throw error;
+    }
+}
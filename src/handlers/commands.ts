@@ -1,9 +1,12 @@
 import { App, Notice, Plugin, TFile } from 'obsidian';
 import { TagFilesAndNotesSettings } from './types';
-import { openMarkdownTagsModal } from './modals';
+import { openMarkdownTagsModal, openUsageModal, openTagHistoryModal } from './modals';
 import { isAIProviderConfigured } from './aiApis'
 import { isFileTypeSupported } from '../libs/utils'
 import { createNoteForFile } from './notes'
+import { getTagListStyle, handleFolderTagGeneration } from './tags'
+import { getTagCache } from './tagCache'
+import { getTagJournal, revertTagChanges, notifyTagRevert } from './tagJournal'
 
 /**
  * Registers all plugin commands
@@ -38,6 +41,92 @@ export function registerCommands(plugin: Plugin, settings: TagFilesAndNotesSetti
             }
         }
     });
+
+    // Command to tag every note in the active note's folder as one batch run
+    plugin.addCommand({
+        id: 'generate-tags-for-folder',
+        name: 'Generate tags for notes in this folder',
+        checkCallback: (checking: boolean) => {
+            const folder = plugin.app.workspace.getActiveFile()?.parent;
+            if (!folder) {
+                return false;
+            }
+            if (!checking) {
+                if (!isAIProviderConfigured(settings)) {
+                    new Notice(`Please configure your ${settings.aiProvider} settings`);
+                    return true;
+                }
+                handleFolderTagGeneration(plugin.app, folder, settings);
+            }
+            return true;
+        }
+    });
+
+    // Command to clear cached AI tag results
+    plugin.addCommand({
+        id: 'clear-tag-cache',
+        name: 'Clear AI tag cache',
+        callback: async () => {
+            const cache = getTagCache();
+            if (!cache) {
+                return;
+            }
+            const count = cache.size;
+            await cache.clear();
+            new Notice(`Cleared ${count} cached tag result${count !== 1 ? 's' : ''}`);
+        }
+    });
+
+    // Command to show token usage and cost of AI requests
+    plugin.addCommand({
+        id: 'show-ai-usage',
+        name: 'Show AI usage',
+        callback: () => {
+            openUsageModal(plugin.app, settings);
+        }
+    });
+
+    // Command to undo the most recent tag change, or every change from the last batch run
+    plugin.addCommand({
+        id: 'undo-last-tag-change',
+        name: 'Undo last tag change',
+        callback: async () => {
+            const journal = getTagJournal();
+            const run = journal ? journal.getLastRun() : [];
+            if (!journal || run.length === 0) {
+                new Notice('No tag changes to undo');
+                return;
+            }
+            notifyTagRevert(await revertTagChanges(plugin.app, journal, run, getTagListStyle(settings)));
+        }
+    });
+
+    // Command to revert the most recent tag change to the active note
+    plugin.addCommand({
+        id: 'revert-note-tags',
+        name: 'Revert tags for this note',
+        checkCallback: (checking: boolean) => {
+            const activeFile = plugin.app.workspace.getActiveFile();
+            const journal = getTagJournal();
+            const entry = activeFile && journal ? journal.getLastEntryFor(activeFile.path) : null;
+            if (!journal || !entry) {
+                return false;
+            }
+            if (!checking) {
+                revertTagChanges(plugin.app, journal, [entry], getTagListStyle(settings)).then(notifyTagRevert);
+            }
+            return true;
+        }
+    });
+
+    // Command to list recorded tag changes
+    plugin.addCommand({
+        id: 'show-tag-history',
+        name: 'Show tag history',
+        callback: () => {
+            openTagHistoryModal(plugin.app, settings);
+        }
+    });
 }
 
 /**
@@ -0,0 +1,139 @@
+import { App } from 'obsidian';
+import { FieldDefinition, TagFilesAndNotesSettings } from './types';
+import { getCompletionFromAI, runProviderChain } from './aiApis';
+import { ProgressNotice } from './progressNotice';
+import { CancellationToken } from '../libs/cancellation';
+import { splitIntoChunks } from '../libs/chunking';
+import { isCancellationError } from '../libs/errorHandling';
+import { getFrontmatterValue, setFrontmatterValue } from '../libs/frontmatter';
+import { FIELD_SYSTEM_PROMPT, buildFieldPrompt, isValidFieldName, mergeFieldValues, parseFieldResponse } from '../libs/fieldSchema';
+import { getProviderOptions } from '../providers/shared';
+
+/**
+ * Options for a field extraction run
+ */
+export interface ExtractFieldsOptions {
+    cancellation?: CancellationToken;
+    /** The file being read, recorded in the usage ledger */
+    sourcePath?: string;
+}
+
+/**
+ * Get the fields from the schema that can be extracted: named, and with
+ * allowed values if they are enums
+ * @param settings Plugin settings
+ */
+export function getActiveFields(settings: TagFilesAndNotesSettings): FieldDefinition[] {
+    if (!settings.extractFields) return [];
+    return settings.fieldSchema.filter(field => isValidFieldName(field.name)
+        && (field.type !== 'enum' || field.values.length > 0));
+}
+
+/**
+ * Ask the AI for the schema fields. Long text is read in chunks, stopping
+ * once every field has a value. Failures are reported and leave the fields
+ * out, so tagging can carry on without them; cancelling stops the whole run.
+ * @param text The document text
+ * @param settings Plugin settings
+ * @param app The Obsidian App instance
+ * @param options Cancellation token and source file
+ * @returns Field names mapped to values, empty if extraction is off or found nothing
+ */
+export async function extractFields(
+    text: string,
+    settings: TagFilesAndNotesSettings,
+    app: App,
+    options: ExtractFieldsOptions = {}
+): Promise<Record<string, unknown>> {
+    const fields = getActiveFields(settings);
+    if (fields.length === 0 || !text.trim()) {
+        return {};
+    }
+
+    const cancellation = options.cancellation || new CancellationToken();
+    try {
+        const result = await runProviderChain(settings, app, 'completion', async (providerSettings) => {
+            const values = await extractFieldsWithProvider(text, fields, providerSettings, { cancellation, sourcePath: options.sourcePath });
+            return Object.keys(values).length > 0 ? { values } : null;
+        });
+        console.log('Extracted fields:', result?.values);
+        return result ? result.values : {};
+    } catch (error) {
+        if (isCancellationError(error)) {
+            throw error;
+        }
+        // The provider chain has already told the user what went wrong
+        console.error('Error extracting fields:', error);
+        return {};
+    }
+}
+
+/**
+ * Extract the fields with a single provider
+ */
+async function extractFieldsWithProvider(
+    text: string,
+    fields: FieldDefinition[],
+    settings: TagFilesAndNotesSettings,
+    context: ExtractFieldsOptions & { cancellation: CancellationToken }
+): Promise<Record<string, unknown>> {
+    const provider = settings.aiProvider;
+    const cancellation = context.cancellation;
+    const loadingNotice = new ProgressNotice(
+        `Extracting fields with ${provider}... This may take up to ${settings.requestTimeoutSeconds} seconds`,
+        () => cancellation.cancel()
+    );
+
+    try {
+        const prompt = buildFieldPrompt(fields);
+        const chunks = splitIntoChunks(text, getProviderOptions(settings, provider).maxInputTokens);
+        const results: Array<Record<string, unknown>> = [];
+
+        for (let i = 0; i < chunks.length; i++) {
+            cancellation.throwIfCancelled();
+            if (chunks.length > 1) {
+                loadingNotice.setMessage(`Extracting fields with ${provider}... section ${i + 1} of ${chunks.length}`);
+            }
+
+            const reply = await getCompletionFromAI({
+                system: FIELD_SYSTEM_PROMPT,
+                prompt,
+                text: chunks[i],
+                json: true
+            }, settings, context);
+
+            try {
+                results.push(parseFieldResponse(reply, fields, settings.languagePreference));
+            } catch (error) {
+                console.log(`${provider} did not return JSON for the fields`, reply);
+            }
+
+            // Lists can keep growing, but single values are settled once found
+            const merged = mergeFieldValues(results);
+            if (fields.every(field => field.type !== 'list' && merged[field.name] !== undefined)) {
+                break;
+            }
+        }
+
+        return mergeFieldValues(results);
+    } finally {
+        loadingNotice.hide();
+    }
+}
+
+/**
+ * Write extracted fields to the frontmatter. Fields the note already has
+ * are only replaced when overwriting is turned on.
+ * @param content The note content
+ * @param values Field names mapped to values
+ * @param settings Plugin settings
+ * @returns The updated content
+ */
+export function applyFields(content: string, values: Record<string, unknown>, settings: TagFilesAndNotesSettings): string {
+    return Object.keys(values).reduce((updated, name) => {
+        if (!settings.overwriteFields && getFrontmatterValue(updated, name) !== undefined) {
+            return updated;
+        }
+        return setFrontmatterValue(updated, name, values[name]);
+    }, content);
+}
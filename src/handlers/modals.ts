@@ -1,6 +1,9 @@
 import { App, Modal, Notice, Setting, TFile } from 'obsidian';
 import { TagFilesAndNotesSettings } from './types';
-import { handleMarkdownTagGeneration } from './tags';
+import { handleMarkdownTagGeneration, getTagListStyle } from './tags';
+import { getUsageLedger, formatCost, UsageTotals } from './usageLedger';
+import { getTagJournal, revertTagChanges, notifyTagRevert, TagJournal, TagJournalEntry } from './tagJournal';
+import { diffLines } from '../libs/diff';
 
 /**
  * Modal for entering tags manually
@@ -68,12 +71,211 @@ export async function promptForManualTags(app: App): Promise<string[]> {
     });
 }
 
+/**
+ * What the tag review modal shows
+ */
+export interface TagReviewOptions {
+    title: string;
+    /** Tags suggested by the AI */
+    suggested: string[];
+    /** Tags already on the note */
+    existing: string[];
+    /** Whether existing tags start selected, as in append mode */
+    keepExisting: boolean;
+    /** Tags used in the vault mapped to how many notes use them */
+    vaultTags: Map<string, number>;
+    /** Build the lines holding the note's tags before and after writing the selected tags */
+    preview: (tags: string[]) => Promise<{ before: string[], after: string[] }>;
+}
+
+interface ReviewRow {
+    tag: string;
+    selected: boolean;
+    existing: boolean;
+}
+
+/**
+ * Modal to review suggested tags before anything is written. Each tag can
+ * be unticked or edited, tags can be added, and the resulting frontmatter
+ * is shown as a diff.
+ */
+export class TagReviewModal extends Modal {
+    private options: TagReviewOptions;
+    private rows: ReviewRow[];
+    private vaultTagCounts: Map<string, number>;
+    private onSubmit: (tags: string[] | null) => void;
+    private submitted = false;
+    private diffEl: HTMLElement;
+    // Counts preview requests so a slow earlier one cannot replace a newer diff
+    private diffRequest = 0;
+
+    constructor(app: App, options: TagReviewOptions, onSubmit: (tags: string[] | null) => void) {
+        super(app);
+        this.options = options;
+        this.onSubmit = onSubmit;
+
+        const existingKeys = new Set(options.existing.map(tag => tag.toLowerCase()));
+        this.rows = [
+            ...options.existing.map(tag => ({ tag, selected: options.keepExisting, existing: true })),
+            ...options.suggested
+                .filter(tag => !existingKeys.has(tag.toLowerCase()))
+                .map(tag => ({ tag, selected: true, existing: false }))
+        ];
+
+        this.vaultTagCounts = new Map();
+        options.vaultTags.forEach((count, tag) => {
+            const key = tag.toLowerCase();
+            this.vaultTagCounts.set(key, (this.vaultTagCounts.get(key) || 0) + count);
+        });
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: this.options.title });
+        contentEl.createEl('p', { text: 'Untick tags you do not want, or edit them. Nothing is written until you confirm.' });
+
+        const listEl = contentEl.createDiv();
+        this.renderRows(listEl);
+
+        let newTag = '';
+        new Setting(contentEl)
+            .setName('Add a tag')
+            .addText(text => text
+                .setPlaceholder('tag')
+                .onChange(value => {
+                    newTag = value;
+                }))
+            .addButton(btn => btn
+                .setButtonText('Add')
+                .onClick(() => {
+                    const tag = newTag.trim();
+                    if (tag) {
+                        this.rows.push({ tag, selected: true, existing: false });
+                        this.renderRows(listEl);
+                        this.updateDiff();
+                    }
+                }));
+
+        contentEl.createEl('h3', { text: 'Changes' });
+        this.diffEl = contentEl.createEl('pre');
+        this.updateDiff();
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Write tags')
+                .setCta()
+                .onClick(() => {
+                    this.submitted = true;
+                    this.onSubmit(this.getSelectedTags());
+                    this.close();
+                }))
+            .addButton(btn => btn
+                .setButtonText('Cancel')
+                .onClick(() => {
+                    this.close();
+                }));
+    }
+
+    /**
+     * Render a row per tag with a checkbox, an editable name and where the tag comes from
+     */
+    private renderRows(listEl: HTMLElement): void {
+        listEl.empty();
+        this.rows.forEach(row => {
+            new Setting(listEl)
+                .setName(this.describeTag(row))
+                .addToggle(toggle => toggle
+                    .setValue(row.selected)
+                    .onChange(value => {
+                        row.selected = value;
+                        this.updateDiff();
+                    }))
+                .addText(text => text
+                    .setValue(row.tag)
+                    .onChange(value => {
+                        row.tag = value;
+                        this.updateDiff();
+                    }));
+        });
+    }
+
+    private describeTag(row: ReviewRow): string {
+        if (row.existing) {
+            return 'Already on this note';
+        }
+        const count = this.vaultTagCounts.get(row.tag.toLowerCase().replace(/^#/, ''));
+        return count ? `Already in vault (${count} note${count !== 1 ? 's' : ''})` : 'New tag';
+    }
+
+    private getSelectedTags(): string[] {
+        const tags: string[] = [];
+        this.rows.forEach(row => {
+            const tag = row.tag.trim();
+            if (row.selected && tag && !tags.includes(tag)) {
+                tags.push(tag);
+            }
+        });
+        return tags;
+    }
+
+    /**
+     * Show the frontmatter the selected tags would produce, marking added and removed lines
+     */
+    private async updateDiff(): Promise<void> {
+        const request = ++this.diffRequest;
+        let diff;
+        try {
+            const { before, after } = await this.options.preview(this.getSelectedTags());
+            diff = diffLines(before, after);
+        } catch (error) {
+            if (request === this.diffRequest) {
+                this.diffEl.setText(`Preview unavailable: ${error.message}`);
+            }
+            return;
+        }
+        if (request !== this.diffRequest) {
+            return;
+        }
+
+        this.diffEl.empty();
+        diff.forEach(({ type, line }) => {
+            this.diffEl.createDiv({
+                text: `${type === 'added' ? '+' : type === 'removed' ? '-' : ' '} ${line}`,
+                cls: type === 'same' ? undefined : `file-to-note-diff-${type}`
+            });
+        });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        if (!this.submitted) {
+            this.onSubmit(null);
+        }
+    }
+}
+
+/**
+ * Opens a modal to review tags before they are written
+ * @param app The Obsidian App instance
+ * @param options The suggested and existing tags and how to preview them
+ * @returns Promise that resolves with the confirmed tags, or null if cancelled
+ */
+export async function promptForTagReview(app: App, options: TagReviewOptions): Promise<string[] | null> {
+    return new Promise(resolve => {
+        new TagReviewModal(app, options, resolve).open();
+    });
+}
+
 /**
  * Modal to confirm tag generation for markdown files
  */
 export class MarkdownTagsModal extends Modal {
     private file: any;
     private settings: TagFilesAndNotesSettings;
+    private bypassCache: boolean = false;
     
     constructor(app: App, file: any, settings: TagFilesAndNotesSettings) {
         super(app);
@@ -88,6 +290,17 @@ export class MarkdownTagsModal extends Modal {
         contentEl.createEl('h2', { text: 'Generate Tags' });
         contentEl.createEl('p', { text: 'Generate tags for this note and append to or replace any existing tags' });
 
+        if (this.settings.cacheEnabled) {
+            new Setting(contentEl)
+                .setName('Bypass cache')
+                .setDesc('Ask the AI again even if this content was tagged before')
+                .addToggle(toggle => toggle
+                    .setValue(this.bypassCache)
+                    .onChange(value => {
+                        this.bypassCache = value;
+                    }));
+        }
+
         const buttonContainer = new Setting(contentEl);
         
         // Add Append button
@@ -96,7 +309,7 @@ export class MarkdownTagsModal extends Modal {
             .setCta()
             .onClick(() => {
                 this.close();
-                handleMarkdownTagGeneration(this.app, this.file, this.settings, 'append');
+                handleMarkdownTagGeneration(this.app, this.file, this.settings, 'append', { bypassCache: this.bypassCache });
             }));
         
         // Add Replace button
@@ -104,7 +317,7 @@ export class MarkdownTagsModal extends Modal {
             .setButtonText('Replace')
             .onClick(() => {
                 this.close();
-                handleMarkdownTagGeneration(this.app, this.file, this.settings, 'replace');
+                handleMarkdownTagGeneration(this.app, this.file, this.settings, 'replace', { bypassCache: this.bypassCache });
             }));
         
         // Add Cancel button
@@ -130,4 +343,209 @@ export class MarkdownTagsModal extends Modal {
  */
 export function openMarkdownTagsModal(app: App, file: any, settings: TagFilesAndNotesSettings): void {
     new MarkdownTagsModal(app, file, settings).open();
-} 
\ No newline at end of file
+}
+
+// How many individual requests to list in the usage view
+const RECENT_USAGE_LIMIT = 20;
+
+/**
+ * Modal showing AI token usage and estimated cost
+ */
+export class UsageModal extends Modal {
+    private settings: TagFilesAndNotesSettings;
+
+    constructor(app: App, settings: TagFilesAndNotesSettings) {
+        super(app);
+        this.settings = settings;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: 'AI Usage' });
+
+        const ledger = getUsageLedger();
+        const entries = ledger ? ledger.getEntries() : [];
+        if (!ledger || entries.length === 0) {
+            contentEl.createEl('p', { text: 'No AI requests have been recorded yet.' });
+            return;
+        }
+
+        const month = ledger.getMonthTotals();
+        const budget = this.settings.monthlyBudget > 0
+            ? ` of ${formatCost(this.settings.monthlyBudget)} budget`
+            : '';
+        contentEl.createEl('p', {
+            text: `This month: ${month.requests} request${month.requests !== 1 ? 's' : ''}, ${formatCost(month.cost)}${budget}`
+        });
+        if (entries.some(entry => entry.estimated)) {
+            contentEl.createEl('p', { text: 'Some providers did not report token usage, so those requests are estimated from the text length.' });
+        }
+
+        contentEl.createEl('h3', { text: 'By month' });
+        this.renderTotals(contentEl, 'Month', ledger.getTotalsBy('month'));
+
+        contentEl.createEl('h3', { text: 'By day' });
+        this.renderTotals(contentEl, 'Day', ledger.getTotalsBy('day').slice(0, 31));
+
+        contentEl.createEl('h3', { text: 'Recent requests' });
+        const table = contentEl.createEl('table');
+        const header = table.createEl('tr');
+        ['Time', 'Provider', 'Model', 'Tokens in', 'Tokens out', 'Cost', 'Seconds', 'File'].forEach(title => {
+            header.createEl('th', { text: title });
+        });
+        entries.slice(-RECENT_USAGE_LIMIT).reverse().forEach(entry => {
+            const row = table.createEl('tr');
+            [
+                new Date(entry.timestamp).toLocaleString(),
+                entry.provider,
+                entry.model,
+                `${entry.estimated ? '~' : ''}${entry.inputTokens}`,
+                `${entry.estimated ? '~' : ''}${entry.outputTokens}`,
+                formatCost(entry.cost),
+                (entry.durationMs / 1000).toFixed(1),
+                entry.path || ''
+            ].forEach(value => row.createEl('td', { text: value }));
+        });
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Clear usage history')
+                .setWarning()
+                .onClick(async () => {
+                    await ledger.clear();
+                    new Notice('AI usage history cleared');
+                    this.onOpen();
+                }));
+    }
+
+    /**
+     * Render a table of totals per period
+     */
+    private renderTotals(containerEl: HTMLElement, label: string, rows: Array<{ key: string, totals: UsageTotals }>): void {
+        const table = containerEl.createEl('table');
+        const header = table.createEl('tr');
+        [label, 'Requests', 'Tokens in', 'Tokens out', 'Cost'].forEach(title => {
+            header.createEl('th', { text: title });
+        });
+        rows.forEach(({ key, totals }) => {
+            const row = table.createEl('tr');
+            [key, `${totals.requests}`, `${totals.inputTokens}`, `${totals.outputTokens}`, formatCost(totals.cost)]
+                .forEach(value => row.createEl('td', { text: value }));
+        });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+/**
+ * Opens the AI usage view
+ * @param app The Obsidian App instance
+ * @param settings Plugin settings
+ */
+export function openUsageModal(app: App, settings: TagFilesAndNotesSettings): void {
+    new UsageModal(app, settings).open();
+}
+
+// How many runs to list in the tag history view
+const TAG_HISTORY_LIMIT = 50;
+
+/**
+ * Modal listing recorded tag changes, with buttons to revert a change or a whole run
+ */
+export class TagHistoryModal extends Modal {
+    private settings: TagFilesAndNotesSettings;
+
+    constructor(app: App, settings: TagFilesAndNotesSettings) {
+        super(app);
+        this.settings = settings;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: 'Tag History' });
+
+        const journal = getTagJournal();
+        const runs = journal ? journal.getRuns().slice(0, TAG_HISTORY_LIMIT) : [];
+        if (!journal || runs.length === 0) {
+            contentEl.createEl('p', { text: 'No tag changes have been recorded yet.' });
+            return;
+        }
+
+        runs.forEach(run => this.renderRun(contentEl, journal, run));
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Clear tag history')
+                .setWarning()
+                .onClick(async () => {
+                    await journal.clear();
+                    new Notice('Tag history cleared');
+                    this.onOpen();
+                }));
+    }
+
+    /**
+     * Render one run as a heading with a revert button and a table of its changes
+     */
+    private renderRun(containerEl: HTMLElement, journal: TagJournal, run: TagJournalEntry[]): void {
+        const pending = run.filter(entry => !entry.reverted);
+        const first = run[0];
+        const heading = new Setting(containerEl)
+            .setName(new Date(first.timestamp).toLocaleString())
+            .setDesc(`${first.provider}, ${run.length} note${run.length !== 1 ? 's' : ''}`);
+        if (pending.length > 0) {
+            heading.addButton(btn => btn
+                .setButtonText(run.length > 1 ? 'Revert run' : 'Revert')
+                .onClick(() => this.revert(journal, pending)));
+        }
+
+        const table = containerEl.createEl('table');
+        const header = table.createEl('tr');
+        ['File', 'Change', 'Before', 'After', ''].forEach(title => {
+            header.createEl('th', { text: title });
+        });
+        run.forEach(entry => {
+            const row = table.createEl('tr');
+            [
+                entry.path,
+                entry.mode,
+                entry.tagsBefore.join(', '),
+                entry.tagsAfter.join(', ')
+            ].forEach(value => row.createEl('td', { text: value }));
+
+            const actionCell = row.createEl('td');
+            if (entry.reverted) {
+                actionCell.setText('Reverted');
+            } else if (run.length > 1) {
+                const button = actionCell.createEl('button', { text: 'Revert' });
+                button.addEventListener('click', () => this.revert(journal, [entry]));
+            }
+        });
+    }
+
+    private async revert(journal: TagJournal, entries: TagJournalEntry[]): Promise<void> {
+        notifyTagRevert(await revertTagChanges(this.app, journal, entries, getTagListStyle(this.settings)));
+        this.onOpen();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+/**
+ * Opens the tag history view
+ * @param app The Obsidian App instance
+ * @param settings Plugin settings
+ */
+export function openTagHistoryModal(app: App, settings: TagFilesAndNotesSettings): void {
+    new TagHistoryModal(app, settings).open();
+}
@@ -1,13 +1,44 @@
-import { App, Notice, TFile } from 'obsidian';
+import { App, Notice, TFile, TFolder, normalizePath } from 'obsidian';
 import { TagFilesAndNotesSettings } from './types';
-import { formatDate, isFileTypeSupported } from '../libs/utils';
-import { generateTags, manageFrontmatterTags } from './tags';
+import { formatFileSize, formatTag, isFileTypeSupported, isImageFile } from '../libs/utils';
+import { generateTags, generateImageTags, placeTags, getTagPreviewLines, getPlacedTags, getTagListStyle } from './tags';
+import { setFrontmatterValue } from '../libs/frontmatter';
+import { snapToVaultTags, getVaultTags } from './vaultTags';
 import { extractTextFromFile, getTextExtractor } from './text';
-import { promptForManualTags } from './modals';
+import { promptForManualTags, promptForTagReview } from './modals';
 import { isAIProviderConfigured } from './aiApis'
+import { isCancellationError } from '../libs/errorHandling';
+import { CancellationToken } from '../libs/cancellation';
+import { extractFields, applyFields } from './fields';
+import { generateSummary } from './summary';
+import { NoteSummary, formatSummarySection } from '../libs/summary';
+import { renderNoteTemplate, TemplateValue, TemplateVariables } from '../libs/template';
+import { getAttachmentFolder, getNoteFolder, getNoteName, joinPath } from '../libs/notePaths';
+import { getTagJournal, createJournalId } from './tagJournal';
 
 /**
- * Creates a note alongside a PDF or other allowed file type
+ * Content for a new note and the provider that tagged it
+ */
+interface NoteContent {
+    content: string;
+    /** Unset when the tags were entered manually or no provider is configured */
+    provider?: string;
+}
+
+/**
+ * What was extracted and generated for a file, to fill in the note
+ */
+interface NoteData {
+    tags: string[];
+    extractedText: string | null;
+    description?: string;
+    summary: NoteSummary | null;
+    fields: Record<string, unknown>;
+}
+
+/**
+ * Creates a note for a PDF or other allowed file type, in the folder and
+ * with the name from settings, optionally moving the file next to it
  * @param app The Obsidian App instance
  * @param file The file to create a note for
  * @param settings Plugin settings
@@ -27,7 +58,8 @@ export async function createNoteForFile(
 
         // Check if Text Extractor plugin is available
         // This prevents file being created before text extraction.
-        if (!getTextExtractor(app)) {
+        // Images can still be tagged by a vision model without it.
+        if (!getTextExtractor(app) && !isImageFile(file)) {
             new Notice('Text Extractor plugin is not installed or enabled. It is required for extracting text from non-markdown files.');
             return;
         }
@@ -40,9 +72,15 @@ export async function createNoteForFile(
             return;
         }
 
-        // Create the note name (same as the file but with .md extension)
-        const noteName = `${file.basename}.md`;
-        const notePath = `${folder.path}/${noteName}`;
+        // Work out where the note goes and what it is called
+        const noteFolder = getNoteFolder(folder.path, settings);
+        const noteName = `${getNoteName({
+            basename: file.basename,
+            extension: file.extension,
+            folder: folder.path,
+            ctime: file.stat.ctime
+        }, settings.noteNamePattern)}.md`;
+        const notePath = normalizePath(joinPath(noteFolder, noteName));
 
         // Check if the note already exists
         const existingNote = app.vault.getAbstractFileByPath(notePath);
@@ -52,13 +90,36 @@ export async function createNoteForFile(
         }
 
         // Create the note content with frontmatter and link to the original file
-        const fileLink = app.metadataCache.fileToLinktext(file, '');
-        const noteContent = await createNoteContent(file, fileLink, settings, app);
+        const fileLink = app.metadataCache.fileToLinktext(file, notePath);
+        const { content: noteContent, provider } = await createNoteContent(file, fileLink, settings, app);
 
         // Create the note
-        await app.vault.create(notePath, noteContent);
+        await ensureFolder(app, noteFolder);
+        const createdNote = await app.vault.create(notePath, noteContent);
+        await getTagJournal()?.record({
+            runId: createJournalId(),
+            path: createdNote.path,
+            mode: 'create',
+            provider: provider || 'manual',
+            placement: settings.tagPlacement,
+            property: getTagListStyle(settings).property,
+            tagsBefore: [],
+            tagsAfter: getPlacedTags(noteContent, settings)
+        });
 
-        new Notice(`Created note for ${file.basename}`);
+        // Move the file only once the note exists, so a cancelled or failed run leaves it where it was.
+        // The note is kept if the move fails.
+        let message = `Created note for ${file.basename}`;
+        if (settings.moveSourceFile) {
+            try {
+                await moveToAttachmentFolder(app, file, getAttachmentFolder(noteFolder, settings));
+                await updateFileLink(app, createdNote, fileLink, app.metadataCache.fileToLinktext(file, notePath));
+            } catch (error) {
+                console.error('Error moving file:', error);
+                message += `, but could not move the file: ${error.message}`;
+            }
+        }
+        new Notice(message);
 
         // Open the new note
         const newNote = app.vault.getAbstractFileByPath(notePath) as TFile;
@@ -67,41 +128,144 @@ export async function createNoteForFile(
         }
     } catch (error) {
         console.error('Error creating note:', error);
-        new Notice(`Error creating note: ${error.message}`);
+        new Notice(error.message === 'Note creation cancelled' ? error.message : `Error creating note: ${error.message}`);
+    }
+}
+
+
+/**
+ * Create a folder and any missing parent folders
+ * @param app The Obsidian App instance
+ * @param path The folder path, or an empty string for the vault root
+ */
+async function ensureFolder(app: App, path: string): Promise<void> {
+    let current = '';
+    for (const part of path.split('/').filter(part => part.length > 0)) {
+        current = joinPath(current, part);
+        const existing = app.vault.getAbstractFileByPath(current);
+        if (!existing) {
+            await app.vault.createFolder(current);
+        } else if (!(existing instanceof TFolder)) {
+            throw new Error(`'${current}' is a file, not a folder`);
+        }
     }
 }
 
+/**
+ * Move a file into the attachment folder, updating links to it. A file
+ * that is already there, or would replace another file, stays put.
+ */
+async function moveToAttachmentFolder(app: App, file: TFile, attachmentFolder: string): Promise<void> {
+    const targetPath = normalizePath(joinPath(attachmentFolder, file.name));
+    if (targetPath === file.path) return;
+
+    if (app.vault.getAbstractFileByPath(targetPath)) {
+        new Notice(`Could not move ${file.name}: ${targetPath} already exists`);
+        return;
+    }
+    await ensureFolder(app, attachmentFolder);
+    await app.fileManager.renameFile(file, targetPath);
+}
+
+/**
+ * Point the note's links at the file's new path, if Obsidian has not
+ * already updated them when the file was moved
+ */
+async function updateFileLink(app: App, note: TFile, oldLink: string, newLink: string): Promise<void> {
+    if (oldLink === newLink) return;
+    const content = await app.vault.read(note);
+    const updated = content.split(`[[${oldLink}]]`).join(`[[${newLink}]]`);
+    if (updated !== content) {
+        await app.vault.modify(note, updated);
+    }
+}
 
 /**
  * Creates the content for the new note
  */
-async function createNoteContent(file: TFile, fileLink: string, settings: TagFilesAndNotesSettings, app: App): Promise<string> {
+async function createNoteContent(file: TFile, fileLink: string, settings: TagFilesAndNotesSettings, app: App): Promise<NoteContent> {
     try {
-        // Extract text from PDF
-        console.log('Starting text extraction for file:', file.basename);
-        const extractedText = await extractTextFromFile(app, file);
-        console.log('Extracted text length:', extractedText?.length || 0);
+        const noteTemplate = await readNoteTemplate(app, settings);
 
-        if (!extractedText) {
-            new Notice('No text could be extracted from the file');
+        // Extract text from PDF, or OCR an image when Text Extractor is available
+        let extractedText: string | null = null;
+        if (getTextExtractor(app) || !isImageFile(file)) {
+            console.log('Starting text extraction for file:', file.basename);
+            extractedText = await extractTextFromFile(app, file);
+            console.log('Extracted text length:', extractedText?.length || 0);
+        }
+
+        // Images without text are tagged by a vision model instead
+        const useVision = !extractedText?.trim() && isImageFile(file);
+
+        if (!extractedText && !useVision) {
             throw new Error('No text could be extracted from the file');
         }
 
         // Generate tags if AI provider is configured
         console.log('AI Provider:', settings.aiProvider);
         let tags: string[] = [];
+        let description: string | undefined;
+        let taggedBy: string | undefined;
+        // Set when a provider returned tags, so its name is only recorded for generated tags
+        let generated = false;
+        let fields: Record<string, unknown> = {};
+        let summary: NoteSummary | null = null;
 
         if (isAIProviderConfigured(settings)) {
+            // One token for every request, so cancelling any step stops the rest
+            const cancellation = new CancellationToken();
+            const context = { cancellation, sourcePath: file.path };
             try {
-                tags = await generateTags(extractedText, settings, app);
+                if (useVision) {
+                    console.log('No text found in image, using vision model');
+                    const result = await generateImageTags(file, settings, app, context);
+                    tags = result.tags;
+                    description = result.description;
+                    taggedBy = result.provider;
+                    generated = tags.length > 0;
+                } else {
+                    // These leave themselves out if they fail, so they run first and show in the review
+                    fields = await extractFields(extractedText as string, settings, app, context);
+                    summary = await generateSummary(extractedText as string, settings, app, context);
+
+                    const result = await generateTags(extractedText as string, settings, app, context);
+                    tags = result.tags;
+                    taggedBy = result.provider;
+                    generated = tags.length > 0;
+                }
+                tags = snapToVaultTags(app, tags, settings).tags;
                 console.log('Generated tags:', tags);
+
+                if (settings.reviewTagsBeforeWriting && tags.length > 0) {
+                    const reviewed = await promptForTagReview(app, {
+                        title: `Review tags for ${file.name}`,
+                        suggested: tags,
+                        existing: [],
+                        keepExisting: false,
+                        vaultTags: getVaultTags(app),
+                        preview: async selected => ({
+                            before: [],
+                            after: getTagPreviewLines(await renderNote(file, fileLink, settings, noteTemplate,
+                                { tags: [...selected, file.extension], extractedText, description, summary, fields }))
+                        })
+                    });
+                    if (!reviewed) {
+                        throw new Error('Note creation cancelled');
+                    }
+                    tags = reviewed;
+                }
             } catch (error) {
                 if (error.message === 'Note creation cancelled') {
                     throw error;
                 }
+                if (isCancellationError(error)) {
+                    throw new Error('Note creation cancelled');
+                }
                 // For other errors, we'll prompt for manual tags
                 console.error('Error generating tags:', error);
                 new Notice('Could not generate tags automatically. Would you like to enter them manually?');
+                generated = false;
                 try {
                     tags = await promptForManualTags(app);
                 } catch (e) {
@@ -113,37 +277,111 @@ async function createNoteContent(file: TFile, fileLink: string, settings: TagFil
         // Add file extension as an additional tag
         tags.push(file.extension);
 
-        // Create base content without frontmatter
-        let baseContent = `## ${file.basename}\n\n![[${fileLink}]]`;
+        const noteContent = await renderNote(file, fileLink, settings, noteTemplate, { tags, extractedText, description, summary, fields });
 
-        // Only include extracted text if the setting is enabled
-        if (settings.includeExtractedText) {
-            baseContent += `\n\n## Extracted Text\n\n${extractedText}`;
+        // Only record the provider when it produced tags, not for manual entry
+        const provider = generated ? taggedBy : undefined;
+        if (settings.recordTaggedBy && provider) {
+            return { content: setFrontmatterValue(noteContent, settings.taggedByProperty, provider), provider };
         }
-
-        // Add template variables for the frontmatter
-        const templateVars = {
-            title: file.basename,
-            date: formatDate()
-        };
-
-        // Apply frontmatter with tags and template
-        return manageFrontmatterTags(
-            baseContent,
-            tags,
-            settings.tagCaseFormat,
-            'replace',  // Always use replace mode for new notes
-            settings.defaultTemplate,
-            templateVars,
-            settings.languagePreference
-        );
+        return { content: noteContent, provider };
     } catch (error) {
         console.error('Error creating note content:', error);
-        if (error.message === 'Note creation cancelled') {
-            new Notice('Note creation cancelled');
-        } else {
-            new Notice(`Error creating note: ${error.message}`);
-        }
         throw error;
     }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Render the note from the note template, or the built-in layout if there
+ * is none, then apply the tags and fields
+ */
+async function renderNote(
+    file: TFile,
+    fileLink: string,
+    settings: TagFilesAndNotesSettings,
+    noteTemplate: string | null,
+    data: NoteData
+): Promise<string> {
+    const templateVars = getTemplateVariables(file, fileLink, settings, data);
+    const baseContent = noteTemplate !== null
+        ? renderNoteTemplate(noteTemplate, templateVars)
+        : getDefaultNoteBody(file, fileLink, settings, data);
+
+    // Apply frontmatter from the template and write the tags where they are placed
+    return applyFields(await placeTags(
+        baseContent,
+        data.tags,
+        'replace',  // Always use replace mode for new notes
+        settings,
+        templateVars,
+        true
+    ), data.fields, settings);
+}
+
+/**
+ * Read the note template from the vault
+ * @returns The template, or null if none is set or the note is missing
+ */
+async function readNoteTemplate(app: App, settings: TagFilesAndNotesSettings): Promise<string | null> {
+    const path = settings.noteTemplatePath.trim();
+    if (!path) return null;
+
+    const file = app.vault.getAbstractFileByPath(normalizePath(path.endsWith('.md') ? path : `${path}.md`));
+    if (!(file instanceof TFile)) {
+        new Notice(`Note template ${path} not found, using the built-in layout`);
+        return null;
+    }
+    return await app.vault.cachedRead(file);
+}
+
+/**
+ * The built-in note body: the embedded file, then the optional sections
+ */
+function getDefaultNoteBody(file: TFile, fileLink: string, settings: TagFilesAndNotesSettings, data: NoteData): string {
+    let body = `## ${file.basename}\n\n![[${fileLink}]]`;
+
+    if (data.description && settings.includeImageDescription) {
+        body += `\n\n## Description\n\n${data.description}`;
+    }
+
+    if (data.summary && settings.includeSummarySection) {
+        body += `\n\n${formatSummarySection(data.summary)}`;
+    }
+
+    // Only include extracted text if the setting is enabled
+    if (settings.includeExtractedText && data.extractedText) {
+        body += `\n\n## Extracted Text\n\n${data.extractedText}`;
+    }
+    return body;
+}
+
+/**
+ * Variables for the note template and the frontmatter template. Extracted
+ * fields are available by name, unless a built-in variable has that name.
+ */
+function getTemplateVariables(file: TFile, fileLink: string, settings: TagFilesAndNotesSettings, data: NoteData): TemplateVariables {
+    const fieldVars: TemplateVariables = {};
+    Object.keys(data.fields).forEach(name => {
+        const value = data.fields[name];
+        fieldVars[name] = Array.isArray(value) ? value.map(String) : value as TemplateValue;
+    });
+
+    return {
+        ...fieldVars,
+        title: file.basename,
+        date: new Date(),
+        tags: data.tags.map(tag => formatTag(tag, settings.tagCaseFormat)),
+        file_name: file.name,
+        file_path: file.path,
+        file_link: `[[${fileLink}]]`,
+        embed: `![[${fileLink}]]`,
+        extension: file.extension,
+        size: formatFileSize(file.stat.size),
+        created: new Date(file.stat.ctime),
+        modified: new Date(file.stat.mtime),
+        extracted_text: data.extractedText || '',
+        description: data.description || '',
+        summary: data.summary ? data.summary.summary : '',
+        key_points: data.summary ? data.summary.keyPoints : []
+    };
+}
@@ -0,0 +1,35 @@
+import { Notice } from 'obsidian';
+
+/**
+ * A notice that stays open while a long operation runs, with a Cancel button
+ */
+export class ProgressNotice {
+	private notice: Notice;
+
+	constructor(message: string, private onCancel: () => void) {
+		// A duration of 0 keeps the notice open until hide() is called
+		this.notice = new Notice(this.buildMessage(message), 0);
+	}
+
+	setMessage(message: string): void {
+		this.notice.setMessage(this.buildMessage(message));
+	}
+
+	hide(): void {
+		this.notice.hide();
+	}
+
+	private buildMessage(message: string): DocumentFragment {
+		return createFragment(fragment => {
+			fragment.createDiv({ text: message });
+			const cancelButton = fragment.createEl('button', { text: 'Cancel' });
+			cancelButton.addEventListener('click', (event) => {
+				// Clicking a notice normally dismisses it; keep it until generation stops
+				event.stopPropagation();
+				cancelButton.disabled = true;
+				cancelButton.setText('Cancelling...');
+				this.onCancel();
+			});
+		});
+	}
+}
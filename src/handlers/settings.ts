@@ -1,9 +1,19 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
+import { App, Notice, PluginSettingTab, Setting } from 'obsidian';
 import TagFilesAndNotesPlugin from '../main';
-import { DEFAULT_SETTINGS, AIProvider, TagCaseFormat, LanguagePreference } from './types';
+import { DEFAULT_SETTINGS, AIProvider, TagCaseFormat, TagPlacement, TagListFormat, TagQuoting, NotesLocation, LanguagePreference, ProviderOptions, FieldDefinition, FieldType } from './types';
+import { getProvider, getProviders } from '../providers/registry';
+import { TagProvider, ProviderSettingField } from '../providers/types';
+import { getDefaultProviderOptions, getProviderOptions } from '../providers/shared';
+import { TIMEOUTS } from '../libs/constants';
+import { VOCABULARY_TEMPLATE } from '../libs/vocabulary';
+import { parseTagRoots } from '../libs/tagHierarchy';
+import { isValidFieldName } from '../libs/fieldSchema';
+import { readVocabularyFile, writeVocabularyFile } from './vocabulary';
 
 export class TagFilesAndNotesSettingTab extends PluginSettingTab {
 	plugin: TagFilesAndNotesPlugin;
+	// Models discovered from each provider while the settings tab is open
+	private discoveredModels: Partial<Record<AIProvider, string[]>> = {};
 
 	constructor(app: App, plugin: TagFilesAndNotesPlugin) {
 		super(app, plugin);
@@ -81,6 +91,35 @@ export class TagFilesAndNotesSettingTab extends PluginSettingTab {
 					});
 			});
 
+		new Setting(containerEl)
+			.setName('Tag placement')
+			.setDesc('Where tags are written. Inline tags go on a single #tag line that the plugin rewrites on later runs instead of adding another.')
+			.addDropdown(dropdown => dropdown
+				.addOption('frontmatter', 'Frontmatter')
+				.addOption('top', 'Inline at the top of the note')
+				.addOption('bottom', 'Inline at the bottom of the note')
+				.addOption('both', 'Frontmatter and inline at the bottom')
+				.setValue(this.plugin.settings.tagPlacement)
+				.onChange(async (value: TagPlacement) => {
+					this.plugin.settings.tagPlacement = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}))
+			.addExtraButton(button => {
+				button
+					.setIcon('reset')
+					.setTooltip('Reset to default')
+					.onClick(async () => {
+						this.plugin.settings.tagPlacement = DEFAULT_SETTINGS.tagPlacement;
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+
+		if (this.plugin.settings.tagPlacement === 'frontmatter' || this.plugin.settings.tagPlacement === 'both') {
+			this.displayTagPropertySettings(containerEl);
+		}
+
 		new Setting(containerEl)
 			.setName('Language preference')
 			.setDesc('Choose between UK or US English for spelling variants in tag comparison')
@@ -103,95 +142,217 @@ export class TagFilesAndNotesSettingTab extends PluginSettingTab {
 					});
 			});
 
-		// AI Provider Settings
-		containerEl.createEl('h3', { text: 'AI Provider' });
+		new Setting(containerEl)
+			.setName('Review tags before writing')
+			.setDesc('Show the suggested tags, which are already in the vault and the resulting frontmatter, and only write them once you confirm')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.reviewTagsBeforeWriting)
+				.onChange(async (value) => {
+					this.plugin.settings.reviewTagsBeforeWriting = value;
+					await this.plugin.saveSettings();
+				}));
 
 		new Setting(containerEl)
-			.setName('AI Provider')
-			.setDesc('Choose which AI service to use for generating tags')
-			.addDropdown(dropdown => dropdown
-				.addOption('openai', 'OpenAI')
-				.addOption('gemini', 'Google Gemini')
-				.addOption('ollama', 'Ollama (Local)')
-				.addOption('mistral', 'Mistral')
-				.setValue(this.plugin.settings.aiProvider)
-				.onChange(async (value: AIProvider) => {
-					this.plugin.settings.aiProvider = value;
+			.setName('Reuse existing tags')
+			.setDesc('Replace suggested tags with tags already in the vault when they differ only by case, hyphenation, spelling variant, plural or a small typo')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.snapToVaultTags)
+				.onChange(async (value) => {
+					this.plugin.settings.snapToVaultTags = value;
 					await this.plugin.saveSettings();
-					// Refresh the display to show/hide relevant settings
 					this.display();
 				}));
 
-		// Show provider-specific settings based on selection
-		if (this.plugin.settings.aiProvider === 'openai') {
+		if (this.plugin.settings.snapToVaultTags) {
 			new Setting(containerEl)
-				.setName('OpenAI API Key')
-				.setDesc('Enter your OpenAI API key to enable automatic tag generation.')
-				.addText(text => text
-					.setPlaceholder('Enter your OpenAI API key')
-					.setValue(this.plugin.settings.openAIApiKey)
+				.setName('Typo tolerance')
+				.setDesc('Most letters that can differ between a suggested and an existing tag. Short tags always need a closer match. Use 0 to only match variants.')
+				.addSlider(slider => slider
+					.setLimits(0, 3, 1)
+					.setValue(this.plugin.settings.tagSnapMaxDistance)
+					.setDynamicTooltip()
 					.onChange(async (value) => {
-						this.plugin.settings.openAIApiKey = value;
+						this.plugin.settings.tagSnapMaxDistance = value;
 						await this.plugin.saveSettings();
 					}));
-		} else if (this.plugin.settings.aiProvider === 'gemini') {
+		}
+
+		new Setting(containerEl)
+			.setName('Nested tags')
+			.setDesc('Ask for parent/child tags such as topic/machine-learning. Word limits and case formatting apply to each level.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.nestedTags)
+				.onChange(async (value) => {
+					this.plugin.settings.nestedTags = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.nestedTags) {
 			new Setting(containerEl)
-				.setName('Google Client ID')
-				.setDesc('Enter your Google Cloud Client ID')
+				.setName('Tag roots')
+				.setDesc('Comma-separated parents that every tag must start with, such as topic, type. Tags under none of them go under the first. Leave empty to allow any parent.')
 				.addText(text => text
-					.setPlaceholder('Enter your Google Cloud Client ID')
-					.setValue(this.plugin.settings.googleClientId || '')
+					.setPlaceholder('topic, type')
+					.setValue(this.plugin.settings.nestedTagRoots.join(', '))
 					.onChange(async (value) => {
-						this.plugin.settings.googleClientId = value;
+						this.plugin.settings.nestedTagRoots = parseTagRoots(value);
 						await this.plugin.saveSettings();
 					}));
 
 			new Setting(containerEl)
-				.setName('Google Client Secret')
-				.setDesc('Enter your Google Cloud Client Secret')
-				.addText(text => text
-					.setPlaceholder('Enter your Google Cloud Client Secret')
-					.setValue(this.plugin.settings.googleClientSecret || '')
+				.setName('Maximum depth')
+				.setDesc('Most levels a tag may have, including its root. Deeper tags are cut short.')
+				.addSlider(slider => slider
+					.setLimits(1, 5, 1)
+					.setValue(this.plugin.settings.nestedTagMaxDepth)
+					.setDynamicTooltip()
 					.onChange(async (value) => {
-						this.plugin.settings.googleClientSecret = value;
+						this.plugin.settings.nestedTagMaxDepth = value;
 						await this.plugin.saveSettings();
 					}));
-		} else if (this.plugin.settings.aiProvider === 'ollama') {
+		}
+
+		this.displayVocabularySettings(containerEl);
+
+		this.displayFieldSettings(containerEl);
+
+		// AI Provider Settings
+		containerEl.createEl('h3', { text: 'AI Provider' });
+
+		new Setting(containerEl)
+			.setName('AI Provider')
+			.setDesc('Choose which AI service to use for generating tags')
+			.addDropdown(dropdown => {
+				getProviders().forEach(provider => dropdown.addOption(provider.id, provider.name));
+				dropdown
+					.setValue(this.plugin.settings.aiProvider)
+					.onChange(async (value: AIProvider) => {
+						this.plugin.settings.aiProvider = value;
+						await this.plugin.saveSettings();
+						// Refresh the display to show/hide relevant settings
+						this.display();
+					});
+			});
+
+		// Show provider-specific settings based on selection
+		const provider = getProvider(this.plugin.settings.aiProvider);
+		if (provider) {
+			this.displayProviderSettings(containerEl, provider);
+		}
+
+		this.displayFallbackSettings(containerEl);
+
+		new Setting(containerEl)
+			.setName('Structured output')
+			.setDesc('Ask the model for tags as JSON with confidence scores instead of a comma-separated list. Falls back to the list format if the model does not support it.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.structuredOutput)
+				.onChange(async (value) => {
+					this.plugin.settings.structuredOutput = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Request timeout (seconds)')
+			.setDesc('Give up on an AI request that takes longer than this, including any retries after rate limiting. Local models on slow hardware may need more time.')
+			.addText(text => text
+				.setPlaceholder(String(DEFAULT_SETTINGS.requestTimeoutSeconds))
+				.setValue(String(this.plugin.settings.requestTimeoutSeconds))
+				.onChange(async (value) => {
+					const numValue = Number(value);
+					if (!isNaN(numValue) && numValue > 0) {
+						this.plugin.settings.requestTimeoutSeconds = numValue;
+						await this.plugin.saveSettings();
+					}
+				}))
+			.addExtraButton(button => {
+				button
+					.setIcon('reset')
+					.setTooltip('Reset to default')
+					.onClick(async () => {
+						this.plugin.settings.requestTimeoutSeconds = DEFAULT_SETTINGS.requestTimeoutSeconds;
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Cache AI results')
+			.setDesc('Reuse tags for content that has already been tagged with the same prompt, provider and model instead of asking the AI again.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.cacheEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.cacheEnabled = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.cacheEnabled) {
 			new Setting(containerEl)
-				.setName('Ollama Host')
-				.setDesc('The URL where Ollama is running (default: http://localhost:11434)')
+				.setName('Maximum cached results')
+				.setDesc('The oldest results are removed when this limit is reached.')
 				.addText(text => text
-					.setPlaceholder('http://localhost:11434')
-					.setValue(this.plugin.settings.ollamaHost)
+					.setPlaceholder(String(DEFAULT_SETTINGS.cacheMaxEntries))
+					.setValue(String(this.plugin.settings.cacheMaxEntries))
 					.onChange(async (value) => {
-						this.plugin.settings.ollamaHost = value;
-						await this.plugin.saveSettings();
+						const numValue = Number(value);
+						if (!isNaN(numValue) && numValue > 0) {
+							this.plugin.settings.cacheMaxEntries = numValue;
+							await this.plugin.saveSettings();
+						}
 					}));
 
 			new Setting(containerEl)
-				.setName('Ollama Model')
-				.setDesc('The model to use for tag generation (e.g., llama2, mistral, etc.)')
+				.setName('Cache expiry (days)')
+				.setDesc('Cached results older than this are ignored. Use 0 to keep them until the cache is full.')
 				.addText(text => text
-					.setPlaceholder('llama2')
-					.setValue(this.plugin.settings.ollamaModel)
+					.setPlaceholder(String(DEFAULT_SETTINGS.cacheMaxAgeDays))
+					.setValue(String(this.plugin.settings.cacheMaxAgeDays))
 					.onChange(async (value) => {
-						this.plugin.settings.ollamaModel = value;
-						await this.plugin.saveSettings();
+						const numValue = Number(value);
+						if (!isNaN(numValue) && numValue >= 0) {
+							this.plugin.settings.cacheMaxAgeDays = numValue;
+							await this.plugin.saveSettings();
+						}
 					}));
-		} else if (this.plugin.settings.aiProvider === 'mistral') {
-			new Setting(containerEl)
-			.setName('Mistral API Key')
-			.setDesc('Enter your Mistral API key to enable automatic tag generation.')
-			.addText(text => text
-				.setPlaceholder('Enter your Mistral API key')
-				.setValue(this.plugin.settings.mistralAiApiKey)
-				.onChange(async (value) => {
-					this.plugin.settings.mistralAiApiKey = value;
+		}
+
+		new Setting(containerEl)
+			.setName('Model prices')
+			.setDesc('Used to estimate the cost of each request. One model per line as "model: input, output" in dollars per million tokens. Models of paid providers without a price are counted at the highest price listed, with a warning; other models are recorded as free.')
+			.addTextArea(text => {
+				text
+					.setPlaceholder('gpt-4o-mini: 0.15, 0.60')
+					.setValue(this.plugin.settings.modelPrices)
+					.onChange(async (value) => {
+						this.plugin.settings.modelPrices = value;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 6;
+			})
+			.addExtraButton(button => button
+				.setIcon('reset')
+				.setTooltip('Reset to default prices')
+				.onClick(async () => {
+					this.plugin.settings.modelPrices = DEFAULT_SETTINGS.modelPrices;
 					await this.plugin.saveSettings();
+					this.display();
 				}));
 
-			// TODO: Mistral settings
-		}
+		new Setting(containerEl)
+			.setName('Monthly budget')
+			.setDesc('Stop calling paid providers once the estimated cost this month reaches this amount in dollars. Fallback providers that are free are still used. Use 0 for no limit. Run "Show AI usage" to see what has been spent.')
+			.addText(text => text
+				.setPlaceholder('0')
+				.setValue(String(this.plugin.settings.monthlyBudget))
+				.onChange(async (value) => {
+					const numValue = Number(value);
+					if (!isNaN(numValue) && numValue >= 0) {
+						this.plugin.settings.monthlyBudget = numValue;
+						await this.plugin.saveSettings();
+					}
+				}));
 
 		// General Settings Section
 		containerEl.createEl('h3', { text: 'General Settings' });
@@ -230,6 +391,8 @@ export class TagFilesAndNotesSettingTab extends PluginSettingTab {
 					});
 			});
 
+		this.displayNoteLocationSettings(containerEl);
+
 		new Setting(containerEl)
 			.setName('Include extracted text in note')
 			.setDesc('When enabled, the extracted text will be included in the created note. Disable to keep notes cleaner.')
@@ -240,15 +403,59 @@ export class TagFilesAndNotesSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Include image description in note')
+			.setDesc('When an image has no text, it is tagged by a vision model. When enabled, the model also writes a short description that is added to the note.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.includeImageDescription)
+				.onChange(async (value) => {
+					this.plugin.settings.includeImageDescription = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Summarise files')
+			.setDesc('Ask the AI for an abstract and key points of the extracted text, available as {{summary}} and {{key_points}} in the template. Long files are summarised a section at a time.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.generateSummary)
+				.onChange(async (value) => {
+					this.plugin.settings.generateSummary = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.generateSummary) {
+			new Setting(containerEl)
+				.setName('Include summary section in note')
+				.setDesc('Add a Summary section with the key points to the created note')
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings.includeSummarySection)
+					.onChange(async (value) => {
+						this.plugin.settings.includeSummarySection = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+
 		// Advanced settings and Templates
 		containerEl.createEl('h3', { text: 'Advanced Settings' });
 
 		// Templates Section
 		containerEl.createEl('h4', { text: 'Templates' });
 
+		new Setting(containerEl)
+			.setName('Note template')
+			.setDesc('Path of a note in your vault that lays out notes created for files. Leave empty for the built-in layout. Besides the frontmatter template variables it can use {{file_link}}, {{embed}}, {{file_name}}, {{file_path}}, {{extension}}, {{size}}, {{created}}, {{modified}}, {{extracted_text}}, {{description}}, extracted fields by name, {{date:YYYY-MM-DD}} style formats for dates, {{#if name}}…{{else}}…{{/if}} and {{#each tags}}…{{this}}…{{/each}}. If it has no frontmatter, the default frontmatter template is added.')
+			.addText(text => text
+				.setPlaceholder('Templates/File note.md')
+				.setValue(this.plugin.settings.noteTemplatePath)
+				.onChange(async (value) => {
+					this.plugin.settings.noteTemplatePath = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
 		// Create a custom container for the template setting
 		const templateContainer = containerEl.createDiv();
-		templateContainer.createEl('p', { text: 'The default template to use when adding frontmatter to a file. Use {{title}} for the file name, {{date}} for the current date, and {{tags}} for automatically generated tags.' });
+		templateContainer.createEl('p', { text: 'The default template to use when adding frontmatter to a file. Use {{title}} for the file name, {{date}} for the current date, {{tags}} for automatically generated tags, and {{summary}} and {{key_points}} for the summary. Values are quoted when YAML needs it.' });
 		templateContainer.createEl('label', { text: 'Default frontmatter template:' });
 		const templateTextArea = templateContainer.createEl('textarea', {
 			attr: {
@@ -287,5 +494,623 @@ export class TagFilesAndNotesSettingTab extends PluginSettingTab {
 			promptTextArea.value = DEFAULT_SETTINGS.aiPrompt;
 			await this.plugin.saveSettings();
 		});
+
+		if (this.plugin.settings.generateSummary) {
+			const summaryContainer = containerEl.createDiv();
+			summaryContainer.createEl('p', { text: 'Prompt for summarising files. The reply format is added automatically.' });
+			summaryContainer.createEl('label', { text: 'Summary prompt:' });
+			const summaryTextArea = summaryContainer.createEl('textarea', {
+				attr: {
+					style: 'width: 100%; height: 80px; margin-bottom: 1em;'
+				}
+			});
+			summaryTextArea.value = this.plugin.settings.summaryPrompt;
+			summaryTextArea.addEventListener('change', async () => {
+				this.plugin.settings.summaryPrompt = summaryTextArea.value;
+				await this.plugin.saveSettings();
+			});
+			const summaryResetButton = summaryContainer.createEl('button', { text: 'Reset to default' });
+			summaryResetButton.addEventListener('click', async () => {
+				this.plugin.settings.summaryPrompt = DEFAULT_SETTINGS.summaryPrompt;
+				summaryTextArea.value = DEFAULT_SETTINGS.summaryPrompt;
+				await this.plugin.saveSettings();
+			});
+		}
+	}
+
+	/**
+	 * Render the settings declared by a provider, plus a connection test
+	 */
+	private displayProviderSettings(containerEl: HTMLElement, provider: TagProvider): void {
+		provider.settings.forEach(field => {
+			const setting = new Setting(containerEl)
+				.setName(field.name)
+				.setDesc(field.desc);
+
+			if (field.type === 'model') {
+				this.addModelSetting(setting, field, provider);
+			} else if (field.type === 'dropdown') {
+				setting.addDropdown(dropdown => dropdown
+					.addOptions(field.options || {})
+					.setValue(this.plugin.settings[field.key])
+					.onChange(async (value) => {
+						this.plugin.settings[field.key] = value;
+						await this.plugin.saveSettings();
+					}));
+			} else if (field.type === 'textarea') {
+				setting.addTextArea(text => text
+					.setPlaceholder(field.placeholder || '')
+					.setValue(this.plugin.settings[field.key])
+					.onChange(async (value) => {
+						this.plugin.settings[field.key] = value;
+						await this.plugin.saveSettings();
+					}));
+			} else {
+				setting.addText(text => text
+					.setPlaceholder(field.placeholder || '')
+					.setValue(this.plugin.settings[field.key])
+					.onChange(async (value) => {
+						this.plugin.settings[field.key] = value;
+						await this.plugin.saveSettings();
+					}));
+			}
+
+			// Only offer a reset when there is a meaningful default to go back to
+			if (DEFAULT_SETTINGS[field.key]) {
+				setting.addExtraButton(button => {
+					button
+						.setIcon('reset')
+						.setTooltip('Reset to default')
+						.onClick(async () => {
+							this.plugin.settings[field.key] = DEFAULT_SETTINGS[field.key];
+							await this.plugin.saveSettings();
+							this.display();
+						});
+				});
+			}
+		});
+
+		// Offline providers have no model to tune or connect to
+		if (provider.offline) {
+			return;
+		}
+
+		const options = getProviderOptions(this.plugin.settings, provider.id);
+
+		new Setting(containerEl)
+			.setName('Temperature')
+			.setDesc('Lower values give more focused and predictable tags, higher values more varied ones')
+			.addSlider(slider => slider
+				.setLimits(0, 1, 0.05)
+				.setValue(options.temperature)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					await this.updateProviderOptions(provider.id, { temperature: value });
+				}))
+			.addExtraButton(button => {
+				button
+					.setIcon('reset')
+					.setTooltip('Reset to default')
+					.onClick(async () => {
+						await this.updateProviderOptions(provider.id, { temperature: getDefaultProviderOptions(provider.id).temperature });
+						this.display();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Maximum input (tokens)')
+			.setDesc('Roughly how much text is sent per request. Longer documents are split into chunks of this size, tagged separately and the results combined.')
+			.addText(text => text
+				.setPlaceholder(String(getDefaultProviderOptions(provider.id).maxInputTokens))
+				.setValue(String(options.maxInputTokens))
+				.onChange(async (value) => {
+					const numValue = Number(value);
+					if (!isNaN(numValue) && numValue > 0) {
+						await this.updateProviderOptions(provider.id, { maxInputTokens: numValue });
+					}
+				}))
+			.addExtraButton(button => {
+				button
+					.setIcon('reset')
+					.setTooltip('Reset to default')
+					.onClick(async () => {
+						await this.updateProviderOptions(provider.id, { maxInputTokens: getDefaultProviderOptions(provider.id).maxInputTokens });
+						this.display();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Test connection')
+			.setDesc(`Check that ${provider.name} can be reached with these settings`)
+			.addButton(button => button
+				.setButtonText('Test')
+				.onClick(async () => {
+					button.setDisabled(true);
+					try {
+						await provider.testConnection(this.plugin.settings);
+						new Notice(`Connected to ${provider.name}`);
+					} catch (error) {
+						new Notice(`Could not connect to ${provider.name}: ${error.message}`, TIMEOUTS.NOTICE_DURATION);
+					} finally {
+						button.setDisabled(false);
+					}
+				}));
+	}
+
+	/**
+	 * Render a model field as a dropdown of known and discovered models,
+	 * or as a text field when no models are known yet
+	 */
+	private addModelSetting(setting: Setting, field: ProviderSettingField, provider: TagProvider): void {
+		const current = this.plugin.settings[field.key];
+		const models: Record<string, string> = { ...(field.options || {}) };
+		(this.discoveredModels[provider.id] || []).forEach(model => {
+			models[model] = models[model] || model;
+		});
+		if (current && !models[current]) {
+			models[current] = current;
+		}
+
+		if (Object.keys(models).length > 0) {
+			setting.addDropdown(dropdown => dropdown
+				.addOptions(models)
+				.setValue(current)
+				.onChange(async (value) => {
+					this.plugin.settings[field.key] = value;
+					await this.plugin.saveSettings();
+				}));
+		} else {
+			setting.addText(text => text
+				.setPlaceholder(field.placeholder || '')
+				.setValue(current)
+				.onChange(async (value) => {
+					this.plugin.settings[field.key] = value;
+					await this.plugin.saveSettings();
+				}));
+		}
+
+		if (provider.listModels) {
+			setting.addExtraButton(button => {
+				button
+					.setIcon('refresh-cw')
+					.setTooltip(`Fetch available models from ${provider.name}`)
+					.onClick(async () => {
+						await this.discoverModels(provider, true);
+					});
+			});
+
+			// Discover models once per provider while the tab is open, but only once it is
+			// configured so nothing is sent without an API key; the button works regardless
+			if (!this.discoveredModels[provider.id] && provider.isConfigured(this.plugin.settings)) {
+				this.discoverModels(provider, false);
+			}
+		}
+	}
+
+	/**
+	 * Ask a provider for its models and redraw the settings with them
+	 * @param provider The provider to query
+	 * @param notify Whether to report the outcome, used when the user asked explicitly
+	 */
+	private async discoverModels(provider: TagProvider, notify: boolean): Promise<void> {
+		if (!provider.listModels) return;
+
+		// Mark as attempted so a failing provider isn't queried on every redraw
+		this.discoveredModels[provider.id] = this.discoveredModels[provider.id] || [];
+		try {
+			const models = await provider.listModels(this.plugin.settings);
+			this.discoveredModels[provider.id] = models;
+			if (notify) {
+				new Notice(`Found ${models.length} model${models.length !== 1 ? 's' : ''} for ${provider.name}`);
+			}
+			// Only redraw if the user is still looking at this provider
+			if (this.plugin.settings.aiProvider === provider.id) {
+				this.display();
+			}
+		} catch (error) {
+			console.log(`Could not list models for ${provider.name}:`, error);
+			if (notify) {
+				new Notice(`Could not list models for ${provider.name}: ${error.message}`, TIMEOUTS.NOTICE_DURATION);
+			}
+		}
+	}
+
+	/**
+	 * Save changes to the generation options of a provider
+	 */
+	private async updateProviderOptions(provider: AIProvider, changes: Partial<ProviderOptions>): Promise<void> {
+		// Replace rather than mutate so the defaults object is never modified
+		this.plugin.settings.providerOptions = {
+			...this.plugin.settings.providerOptions,
+			[provider]: { ...this.plugin.settings.providerOptions[provider], ...changes }
+		};
+		await this.plugin.saveSettings();
+	}
+
+	/**
+	 * Render the ordered list of fallback providers and the tagged-by option
+	 */
+	private displayFallbackSettings(containerEl: HTMLElement): void {
+		const fallbacks = this.plugin.settings.fallbackProviders;
+
+		new Setting(containerEl)
+			.setName('Fallback providers')
+			.setDesc('If the provider above fails, times out or returns no tags, these are tried in order. Providers that are not configured are skipped.');
+
+		const saveFallbacks = async (updated: AIProvider[]) => {
+			this.plugin.settings.fallbackProviders = updated;
+			await this.plugin.saveSettings();
+			this.display();
+		};
+
+		fallbacks.forEach((id, index) => {
+			const provider = getProvider(id);
+			new Setting(containerEl)
+				.setName(`${index + 1}. ${provider?.name || id}`)
+				.setDesc(provider && !provider.isConfigured(this.plugin.settings) ? 'Not configured, will be skipped' : '')
+				.addExtraButton(button => button
+					.setIcon('arrow-up')
+					.setTooltip('Move up')
+					.setDisabled(index === 0)
+					.onClick(async () => {
+						const updated = [...fallbacks];
+						[updated[index - 1], updated[index]] = [updated[index], updated[index - 1]];
+						await saveFallbacks(updated);
+					}))
+				.addExtraButton(button => button
+					.setIcon('arrow-down')
+					.setTooltip('Move down')
+					.setDisabled(index === fallbacks.length - 1)
+					.onClick(async () => {
+						const updated = [...fallbacks];
+						[updated[index + 1], updated[index]] = [updated[index], updated[index + 1]];
+						await saveFallbacks(updated);
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove')
+					.onClick(async () => {
+						await saveFallbacks(fallbacks.filter((_, i) => i !== index));
+					}));
+		});
+
+		const available = getProviders()
+			.filter(provider => provider.id !== this.plugin.settings.aiProvider && !fallbacks.includes(provider.id));
+		if (available.length > 0) {
+			new Setting(containerEl)
+				.setName('Add fallback provider')
+				.addDropdown(dropdown => {
+					dropdown.addOption('', 'Choose a provider...');
+					available.forEach(provider => dropdown.addOption(provider.id, provider.name));
+					dropdown.onChange(async (value: AIProvider) => {
+						if (value) {
+							await saveFallbacks([...fallbacks, value]);
+						}
+					});
+				});
+		}
+
+		new Setting(containerEl)
+			.setName('Record provider in frontmatter')
+			.setDesc('Add a property naming the provider that generated the tags')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.recordTaggedBy)
+				.onChange(async (value) => {
+					this.plugin.settings.recordTaggedBy = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.recordTaggedBy) {
+			new Setting(containerEl)
+				.setName('Provider property name')
+				.addText(text => text
+					.setPlaceholder(DEFAULT_SETTINGS.taggedByProperty)
+					.setValue(this.plugin.settings.taggedByProperty)
+					.onChange(async (value) => {
+						this.plugin.settings.taggedByProperty = value.trim() || DEFAULT_SETTINGS.taggedByProperty;
+						await this.plugin.saveSettings();
+					}));
+		}
+	}
+
+	/**
+	 * Display the schema of frontmatter fields extracted by the AI
+	 */
+	private displayFieldSettings(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: 'Field Extraction' });
+
+		new Setting(containerEl)
+			.setName('Extract fields')
+			.setDesc('Ask the AI for the fields below and write them to the frontmatter alongside the tags. Uses one more request per note.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.extractFields)
+				.onChange(async (value) => {
+					this.plugin.settings.extractFields = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (!this.plugin.settings.extractFields) {
+			return;
+		}
+
+		new Setting(containerEl)
+			.setName('Overwrite existing values')
+			.setDesc('Replace fields the note already has. When off, only missing fields are added.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.overwriteFields)
+				.onChange(async (value) => {
+					this.plugin.settings.overwriteFields = value;
+					await this.plugin.saveSettings();
+				}));
+
+		const fields = this.plugin.settings.fieldSchema;
+		const saveFields = async (redisplay: boolean) => {
+			await this.plugin.saveSettings();
+			if (redisplay) {
+				this.display();
+			}
+		};
+		const updateField = (index: number, changes: Partial<FieldDefinition>) => {
+			fields[index] = { ...fields[index], ...changes };
+		};
+
+		fields.forEach((field, index) => {
+			const setting = new Setting(containerEl)
+				.setName(field.name || `Field ${index + 1}`)
+				.setDesc(field.name && !isValidFieldName(field.name) ? 'Not a valid property name, will be skipped' : '')
+				.addText(text => text
+					.setPlaceholder('Property name')
+					.setValue(field.name)
+					.onChange(async (value) => {
+						updateField(index, { name: value.trim() });
+						await saveFields(false);
+					}))
+				.addDropdown(dropdown => dropdown
+					.addOption('text', 'Text')
+					.addOption('number', 'Number')
+					.addOption('date', 'Date')
+					.addOption('enum', 'One of a list')
+					.addOption('list', 'List')
+					.addOption('boolean', 'Yes or no')
+					.setValue(field.type)
+					.onChange(async (value: FieldType) => {
+						updateField(index, { type: value });
+						await saveFields(true);
+					}))
+				.addText(text => text
+					.setPlaceholder('What to extract')
+					.setValue(field.description)
+					.onChange(async (value) => {
+						updateField(index, { description: value });
+						await saveFields(false);
+					}));
+
+			if (field.type === 'enum') {
+				setting.addText(text => text
+					.setPlaceholder('Allowed values, comma-separated')
+					.setValue(field.values.join(', '))
+					.onChange(async (value) => {
+						updateField(index, { values: value.split(',').map(option => option.trim()).filter(option => option.length > 0) });
+						await saveFields(false);
+					}));
+			}
+
+			setting.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Remove')
+				.onClick(async () => {
+					this.plugin.settings.fieldSchema = fields.filter((_, i) => i !== index);
+					await saveFields(true);
+				}));
+		});
+
+		new Setting(containerEl)
+			.setDesc('Dates are written as YYYY-MM-DD, numbers without units, and values outside an enum\'s list are dropped.')
+			.addButton(button => button
+				.setButtonText('Add field')
+				.onClick(async () => {
+					this.plugin.settings.fieldSchema = [...fields, { name: '', type: 'text', description: '', values: [] }];
+					await saveFields(true);
+				}));
+	}
+
+	/**
+	 * Display where notes for files are created, their names and whether the file is moved
+	 */
+	private displayNoteLocationSettings(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Note location')
+			.setDesc('Where notes created for files are saved')
+			.addDropdown(dropdown => dropdown
+				.addOption('same', 'Same folder as the file')
+				.addOption('fixed', 'Notes folder')
+				.addOption('mirror', 'Notes folder, mirroring the file\'s folders')
+				.setValue(this.plugin.settings.notesLocation)
+				.onChange(async (value: NotesLocation) => {
+					this.plugin.settings.notesLocation = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.notesLocation !== 'same') {
+			new Setting(containerEl)
+				.setName('Notes folder')
+				.setDesc('Folder for notes created for files. Missing folders are created.')
+				.addText(text => text
+					.setPlaceholder(DEFAULT_SETTINGS.notesDirectory)
+					.setValue(this.plugin.settings.notesDirectory)
+					.onChange(async (value) => {
+						this.plugin.settings.notesDirectory = value.trim();
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('Note name')
+			.setDesc('Name for notes created for files. Use {{basename}} for the file name, {{extension}}, {{folder}} for the file\'s folder, and {{date}} or {{created}} with an optional format such as {{date:YYYY-MM-DD}}.')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.noteNamePattern)
+				.setValue(this.plugin.settings.noteNamePattern)
+				.onChange(async (value) => {
+					this.plugin.settings.noteNamePattern = value.trim() || DEFAULT_SETTINGS.noteNamePattern;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Move file next to its note')
+			.setDesc('Move the file into a subfolder of the note\'s folder when its note is created. Links to the file are updated.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.moveSourceFile)
+				.onChange(async (value) => {
+					this.plugin.settings.moveSourceFile = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.moveSourceFile) {
+			new Setting(containerEl)
+				.setName('Attachments subfolder')
+				.setDesc('Subfolder of the note\'s folder the file is moved to. Leave empty to move it into the note\'s folder.')
+				.addText(text => text
+					.setPlaceholder(DEFAULT_SETTINGS.attachmentsFolder)
+					.setValue(this.plugin.settings.attachmentsFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.attachmentsFolder = value.trim();
+						await this.plugin.saveSettings();
+					}));
+		}
+	}
+
+	/**
+	 * Display the frontmatter property and format used for tags
+	 */
+	private displayTagPropertySettings(containerEl: HTMLElement): void {
+		const presets = ['tags', 'keywords', 'ai-tags'];
+		const property = this.plugin.settings.tagProperty;
+		const isCustom = !presets.includes(property);
+
+		new Setting(containerEl)
+			.setName('Tag property')
+			.setDesc('Frontmatter property the tags are written to. Use a separate property to keep AI tags apart from tags you add by hand; only "tags" is treated as tags by Obsidian.')
+			.addDropdown(dropdown => {
+				presets.forEach(preset => dropdown.addOption(preset, preset));
+				dropdown
+					.addOption('custom', 'Custom')
+					.setValue(isCustom ? 'custom' : property)
+					.onChange(async (value) => {
+						this.plugin.settings.tagProperty = value === 'custom' ? '' : value;
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+
+		if (isCustom) {
+			new Setting(containerEl)
+				.setName('Custom tag property')
+				.setDesc('Name of the frontmatter property for tags')
+				.addText(text => text
+					.setPlaceholder(DEFAULT_SETTINGS.tagProperty)
+					.setValue(property)
+					.onChange(async (value) => {
+						this.plugin.settings.tagProperty = value.trim();
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('Tag list format')
+			.setDesc('How the tags are written in the frontmatter')
+			.addDropdown(dropdown => dropdown
+				.addOption('block', 'List, one tag per line')
+				.addOption('flow', 'Array on one line: [a, b]')
+				.addOption('string', 'Comma-separated text: a, b')
+				.setValue(this.plugin.settings.tagListFormat)
+				.onChange(async (value: TagListFormat) => {
+					this.plugin.settings.tagListFormat = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Tag quoting')
+			.setDesc('Whether tags are quoted. Automatic only quotes tags that YAML would otherwise misread, such as numbers.')
+			.addDropdown(dropdown => dropdown
+				.addOption('auto', 'Automatic')
+				.addOption('double', 'Double quotes')
+				.addOption('single', 'Single quotes')
+				.setValue(this.plugin.settings.tagQuoting)
+				.onChange(async (value: TagQuoting) => {
+					this.plugin.settings.tagQuoting = value;
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	/**
+	 * Render the controlled vocabulary options and an editor for the vocabulary file
+	 */
+	private displayVocabularySettings(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Controlled vocabulary')
+			.setDesc('Give the AI a list of allowed tags, map synonyms to them and never add blocked tags')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.vocabularyEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.vocabularyEnabled = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (!this.plugin.settings.vocabularyEnabled) {
+			return;
+		}
+
+		new Setting(containerEl)
+			.setName('Vocabulary file')
+			.setDesc('Path of the note in your vault that holds the vocabulary')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.vocabularyPath)
+				.setValue(this.plugin.settings.vocabularyPath)
+				.onChange(async (value) => {
+					this.plugin.settings.vocabularyPath = value.trim() || DEFAULT_SETTINGS.vocabularyPath;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Only use vocabulary tags')
+			.setDesc('Drop generated tags that are not in the vocabulary or its synonyms. Otherwise new tags are kept.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.vocabularyStrict)
+				.onChange(async (value) => {
+					this.plugin.settings.vocabularyStrict = value;
+					await this.plugin.saveSettings();
+				}));
+
+		const editor = new Setting(containerEl)
+			.setName('Vocabulary')
+			.setDesc('One tag per line, with synonyms after a colon (machine-learning: ml, deep-learning). Start a line with ! to block a tag.');
+		let vocabularyText = '';
+		editor.addTextArea(text => {
+			text.inputEl.rows = 10;
+			text.setPlaceholder('Loading...')
+				.onChange(value => {
+					vocabularyText = value;
+				});
+			readVocabularyFile(this.app, this.plugin.settings).then(content => {
+				vocabularyText = content ?? VOCABULARY_TEMPLATE;
+				text.setValue(vocabularyText);
+				text.setPlaceholder(content === null ? 'File does not exist yet; saving creates it' : '');
+			});
+		});
+		editor.addButton(button => button
+			.setButtonText('Save')
+			.onClick(async () => {
+				try {
+					await writeVocabularyFile(this.app, this.plugin.settings, vocabularyText);
+					new Notice(`Saved ${this.plugin.settings.vocabularyPath}`);
+				} catch (error) {
+					new Notice(`Could not save the vocabulary: ${error.message}`, TIMEOUTS.NOTICE_DURATION);
+				}
+			}));
 	}
-} 
\ No newline at end of file
+}
@@ -0,0 +1,115 @@
+import { App } from 'obsidian';
+import { TagFilesAndNotesSettings } from './types';
+import { getCompletionFromAI, runProviderChain, AIRequestContext } from './aiApis';
+import { ProgressNotice } from './progressNotice';
+import { CancellationToken } from '../libs/cancellation';
+import { splitIntoChunks } from '../libs/chunking';
+import { isCancellationError } from '../libs/errorHandling';
+import { NoteSummary, SUMMARY_SYSTEM_PROMPT, COMBINE_SUMMARIES_PROMPT, buildSummaryPrompt, formatChunkSummaries, parseSummaryResponse } from '../libs/summary';
+import { getProviderOptions } from '../providers/shared';
+
+/**
+ * Request context once a cancellation token has been created
+ */
+type SummaryContext = AIRequestContext & { cancellation: CancellationToken };
+
+/**
+ * Ask the AI for an abstract and key points. Long text is summarised a
+ * chunk at a time and the chunk summaries are combined. Failures are
+ * reported and leave the summary out, so the note is still created;
+ * cancelling stops the whole run.
+ * @param text The document text
+ * @param settings Plugin settings
+ * @param app The Obsidian App instance
+ * @param context Cancellation token and source file
+ * @returns The summary, or null if summaries are off or none was produced
+ */
+export async function generateSummary(
+    text: string,
+    settings: TagFilesAndNotesSettings,
+    app: App,
+    context: AIRequestContext = {}
+): Promise<NoteSummary | null> {
+    if (!settings.generateSummary || !text.trim()) {
+        return null;
+    }
+
+    const cancellation = context.cancellation || new CancellationToken();
+    try {
+        const result = await runProviderChain(settings, app, 'completion', async (providerSettings) => {
+            const summary = await summariseWithProvider(text, providerSettings, { ...context, cancellation });
+            return summary ? { summary } : null;
+        });
+        console.log('Generated summary:', result?.summary);
+        return result ? result.summary : null;
+    } catch (error) {
+        if (isCancellationError(error)) {
+            throw error;
+        }
+        // The provider chain has already told the user what went wrong
+        console.error('Error generating summary:', error);
+        return null;
+    }
+}
+
+/**
+ * Summarise with a single provider
+ */
+async function summariseWithProvider(
+    text: string,
+    settings: TagFilesAndNotesSettings,
+    context: SummaryContext
+): Promise<NoteSummary | null> {
+    const provider = settings.aiProvider;
+    const cancellation = context.cancellation;
+    const loadingNotice = new ProgressNotice(
+        `Summarising with ${provider}... This may take up to ${settings.requestTimeoutSeconds} seconds`,
+        () => cancellation.cancel()
+    );
+
+    try {
+        const prompt = buildSummaryPrompt(settings.summaryPrompt);
+        const chunks = splitIntoChunks(text, getProviderOptions(settings, provider).maxInputTokens);
+        if (chunks.length <= 1) {
+            return await requestSummary(text, prompt, settings, context);
+        }
+
+        const summaries: NoteSummary[] = [];
+        for (let i = 0; i < chunks.length; i++) {
+            cancellation.throwIfCancelled();
+            loadingNotice.setMessage(`Summarising with ${provider}... section ${i + 1} of ${chunks.length}`);
+            const summary = await requestSummary(chunks[i], prompt, settings, context);
+            if (summary) {
+                summaries.push(summary);
+            }
+        }
+        if (summaries.length <= 1) {
+            return summaries[0] || null;
+        }
+
+        loadingNotice.setMessage(`Combining section summaries with ${provider}...`);
+        const combined = await requestSummary(formatChunkSummaries(summaries), buildSummaryPrompt(`${COMBINE_SUMMARIES_PROMPT} ${settings.summaryPrompt}`), settings, context);
+        return combined || summaries[0];
+    } finally {
+        loadingNotice.hide();
+    }
+}
+
+/**
+ * Send one summary request and parse the reply
+ */
+async function requestSummary(
+    text: string,
+    prompt: string,
+    settings: TagFilesAndNotesSettings,
+    context: SummaryContext
+): Promise<NoteSummary | null> {
+    context.cancellation.throwIfCancelled();
+    const reply = await getCompletionFromAI({
+        system: SUMMARY_SYSTEM_PROMPT,
+        prompt,
+        text,
+        json: true
+    }, settings, context);
+    return parseSummaryResponse(reply);
+}
@@ -0,0 +1,148 @@
+import { App, normalizePath } from 'obsidian';
+import { TagFilesAndNotesSettings } from './types';
+
+interface TagCacheEntry {
+	tags: string[];
+	createdAt: number;
+}
+
+/**
+ * The values that identify a tag generation result
+ */
+export interface TagCacheKey {
+	text: string;
+	prompt: string;
+	provider: string;
+	model: string;
+	maxTags: number;
+	maxWordsPerTag: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Persistent cache of AI tag results, keyed by a hash of the input.
+ * Stored as JSON in the plugin folder so it survives restarts without
+ * bloating the plugin settings.
+ */
+export class TagCache {
+	private entries: Record<string, TagCacheEntry> = {};
+	private loaded = false;
+
+	constructor(
+		private app: App,
+		private path: string,
+		private settings: TagFilesAndNotesSettings
+	) {}
+
+	async load(): Promise<void> {
+		try {
+			if (await this.app.vault.adapter.exists(this.path)) {
+				this.entries = JSON.parse(await this.app.vault.adapter.read(this.path)) || {};
+			}
+		} catch (error) {
+			console.error('Error loading tag cache, starting empty:', error);
+			this.entries = {};
+		}
+		this.loaded = true;
+	}
+
+	async get(key: TagCacheKey): Promise<string[] | null> {
+		if (!this.loaded) await this.load();
+
+		const hash = await hashKey(key);
+		const entry = this.entries[hash];
+		if (!entry) return null;
+
+		if (this.isExpired(entry)) {
+			delete this.entries[hash];
+			await this.save();
+			return null;
+		}
+		return entry.tags;
+	}
+
+	async set(key: TagCacheKey, tags: string[]): Promise<void> {
+		if (!this.loaded) await this.load();
+
+		const hash = await hashKey(key);
+		// Re-insert so the newest entry is last and eviction drops the oldest
+		delete this.entries[hash];
+		this.entries[hash] = { tags, createdAt: Date.now() };
+		this.prune();
+		await this.save();
+	}
+
+	async clear(): Promise<void> {
+		this.entries = {};
+		this.loaded = true;
+		await this.save();
+	}
+
+	get size(): number {
+		return Object.keys(this.entries).length;
+	}
+
+	private isExpired(entry: TagCacheEntry): boolean {
+		return this.settings.cacheMaxAgeDays > 0
+			&& Date.now() - entry.createdAt > this.settings.cacheMaxAgeDays * DAY_MS;
+	}
+
+	/**
+	 * Drop expired entries, then the oldest entries beyond the size limit
+	 */
+	private prune(): void {
+		for (const [hash, entry] of Object.entries(this.entries)) {
+			if (this.isExpired(entry)) {
+				delete this.entries[hash];
+			}
+		}
+
+		const hashes = Object.keys(this.entries);
+		const excess = hashes.length - this.settings.cacheMaxEntries;
+		if (excess > 0) {
+			hashes.slice(0, excess).forEach(hash => delete this.entries[hash]);
+		}
+	}
+
+	private async save(): Promise<void> {
+		try {
+			await this.app.vault.adapter.write(this.path, JSON.stringify(this.entries));
+		} catch (error) {
+			console.error('Error saving tag cache:', error);
+		}
+	}
+}
+
+/**
+ * Hash a cache key with SHA-256
+ */
+async function hashKey(key: TagCacheKey): Promise<string> {
+	const data = new TextEncoder().encode(JSON.stringify([
+		key.text, key.prompt, key.provider, key.model, key.maxTags, key.maxWordsPerTag
+	]));
+	const digest = await crypto.subtle.digest('SHA-256', data);
+	return Array.from(new Uint8Array(digest))
+		.map(byte => ('0' + byte.toString(16)).slice(-2))
+		.join('');
+}
+
+let activeCache: TagCache | null = null;
+
+/**
+ * Create the plugin's tag cache, stored in the plugin folder
+ * @param app The Obsidian App instance
+ * @param pluginDir The plugin's folder in the vault config directory
+ * @param settings Plugin settings
+ */
+export function initTagCache(app: App, pluginDir: string, settings: TagFilesAndNotesSettings): TagCache {
+	activeCache = new TagCache(app, normalizePath(`${pluginDir}/tag-cache.json`), settings);
+	return activeCache;
+}
+
+/**
+ * Get the plugin's tag cache, if it has been initialised
+ */
+export function getTagCache(): TagCache | null {
+	return activeCache;
+}
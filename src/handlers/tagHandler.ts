@@ -1,5 +1,8 @@
 import { App, TFile } from 'obsidian';
 import { TagFilesAndNotesSettings } from './types';
+import { getFrontmatterTags, setFrontmatterTags } from '../libs/frontmatter';
+import { formatTag } from '../libs/utils';
+import { getTagListStyle } from './tags';
 
 export class TagHandler {
 	constructor(
@@ -9,24 +12,22 @@ export class TagHandler {
 
 	async appendTags(file: TFile, newTags: string[]): Promise<void> {
 		try {
-			// Get current content and frontmatter
+			// Get current content and read the tags from it, since the metadata cache may be stale
 			const content = await this.app.vault.read(file);
-			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
-			
-			// Get existing tags from frontmatter and filter out '--'
-			const existingTags = (frontmatter?.tags || []).filter((tag: string) => tag !== '--');
+			const existingTags = getFrontmatterTags(content, getTagListStyle(this.settings).property);
 			
 			// Filter out invalid tags and normalize case
 			const validNewTags = newTags
 				.filter(tag => {
-					const wordCount = tag.split('-').length;
+					// Word limits apply to each level of a nested tag
+					const wordCount = Math.max(...tag.split('/').map(level => level.split('-').length));
 					if (wordCount > this.settings.maxWordsPerTag) {
 						console.log(`Tag "${tag}" was filtered out due to word count`);
 						return false;
 					}
 					return true;
 				})
-				.map(tag => this.normalizeTagCase(tag))
+				.map(tag => formatTag(tag, this.settings.tagCaseFormat))
 				.filter(tag => tag !== '--'); // Filter out any remaining frontmatter markers
 			
 			// Remove duplicates and merge with existing tags
@@ -43,45 +44,7 @@ export class TagHandler {
 		}
 	}
 
-	private normalizeTagCase(tag: string): string {
-		switch (this.settings.tagCaseFormat) {
-			case 'lowercase':
-				return tag.toLowerCase();
-			case 'uppercase':
-				return tag.toUpperCase();
-			case 'titlecase':
-				return tag.split('-')
-					.map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-					.join('-');
-			case 'retain':
-			default:
-				return tag;
-		}
-	}
-
 	private updateFrontmatter(content: string, tags: string[]): string {
-		const frontmatterRegex = /^---\n([\s\S]*?)\n---/;
-		const hasFrontmatter = frontmatterRegex.test(content);
-		
-		if (!hasFrontmatter) {
-			// If no frontmatter exists, add it at the start with proper spacing
-			return `---\ntags:\n${tags.map(tag => `- ${tag}`).join('\n')}\n---\n\n${content}`;
-		}
-		
-		// Replace existing frontmatter
-		return content.replace(frontmatterRegex, (match, frontmatterContent) => {
-			// Check if tags already exist in frontmatter
-			if (frontmatterContent.includes('tags:')) {
-				// Replace existing tags with proper spacing
-				const updatedFrontmatter = frontmatterContent.replace(
-					/tags:[\s\S]*?(?=\n\w|$)/,
-					`tags:\n${tags.map(tag => `- ${tag}`).join('\n')}`
-				);
-				return `---\n${updatedFrontmatter}\n---\n`;
-			} else {
-				// Add tags to existing frontmatter with proper spacing
-				return `---\n${frontmatterContent.trim()}\ntags:\n${tags.map(tag => `- ${tag}`).join('\n')}\n---\n`;
-			}
-		});
+		return setFrontmatterTags(content, tags, getTagListStyle(this.settings));
 	}
-} 
\ No newline at end of file
+}
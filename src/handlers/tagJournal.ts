@@ -0,0 +1,258 @@
+import { App, Notice, TFile, normalizePath } from 'obsidian';
+import { TagPlacement } from './types';
+import { getFrontmatterTags, setFrontmatterTags, TagListStyle } from '../libs/frontmatter';
+import { getInlineTags, setInlineTags } from '../libs/inlineTags';
+
+/**
+ * One tag change recorded in the journal
+ */
+export interface TagJournalEntry {
+	id: string;
+	/** Changes made by one command share a run id so they can be reverted together */
+	runId: string;
+	timestamp: number;
+	path: string;
+	/** How the tags were written; 'create' means the note was created with them */
+	mode: 'append' | 'replace' | 'create';
+	provider: string;
+	/** Where the tags were written, so a revert reads and writes the same place */
+	placement: TagPlacement;
+	/** The frontmatter property the tags were written to, `tags` if unset */
+	property?: string;
+	tagsBefore: string[];
+	tagsAfter: string[];
+	reverted?: boolean;
+}
+
+/**
+ * Outcome of reverting journal entries
+ */
+export interface TagRevertResult {
+	reverted: number;
+	/** Paths left alone because their tags changed since, or the note is gone */
+	skipped: string[];
+}
+
+// Enough to undo a large batch run while keeping the file small
+const MAX_ENTRIES = 1000;
+
+/**
+ * Create an id for a journal entry or run
+ */
+export function createJournalId(): string {
+	return Date.now().toString(36) + Math.random().toString(36).substring(2, 8);
+}
+
+/**
+ * Persistent record of tag changes so they can be undone.
+ * Stored as JSON in the plugin folder next to the tag cache.
+ */
+export class TagJournal {
+	private entries: TagJournalEntry[] = [];
+	private loaded = false;
+
+	constructor(
+		private app: App,
+		private path: string
+	) {}
+
+	async load(): Promise<void> {
+		try {
+			if (await this.app.vault.adapter.exists(this.path)) {
+				const data = JSON.parse(await this.app.vault.adapter.read(this.path));
+				this.entries = Array.isArray(data) ? data : [];
+			}
+		} catch (error) {
+			console.error('Error loading tag journal, starting empty:', error);
+			this.entries = [];
+		}
+		this.loaded = true;
+	}
+
+	async record(entry: Omit<TagJournalEntry, 'id' | 'timestamp'>): Promise<void> {
+		if (!this.loaded) await this.load();
+
+		this.entries.push({ ...entry, id: createJournalId(), timestamp: Date.now() });
+		this.entries = this.entries.slice(-MAX_ENTRIES);
+		await this.save();
+	}
+
+	async clear(): Promise<void> {
+		this.entries = [];
+		this.loaded = true;
+		await this.save();
+	}
+
+	/**
+	 * All recorded entries, oldest first
+	 */
+	getEntries(): TagJournalEntry[] {
+		return [...this.entries];
+	}
+
+	/**
+	 * Entries grouped by run, newest run first
+	 */
+	getRuns(): TagJournalEntry[][] {
+		const runs = new Map<string, TagJournalEntry[]>();
+		this.entries.forEach(entry => {
+			// Entries saved without a run id are runs of their own
+			const runId = entry.runId || entry.id;
+			runs.set(runId, [...(runs.get(runId) || []), entry]);
+		});
+		return [...runs.values()].reverse();
+	}
+
+	/**
+	 * The entries of the most recent run that has not been reverted
+	 */
+	getLastRun(): TagJournalEntry[] {
+		const run = this.getRuns().find(entries => entries.some(entry => !entry.reverted));
+		return run ? run.filter(entry => !entry.reverted) : [];
+	}
+
+	/**
+	 * The most recent change to a note that has not been reverted
+	 */
+	getLastEntryFor(path: string): TagJournalEntry | null {
+		for (let i = this.entries.length - 1; i >= 0; i--) {
+			if (this.entries[i].path === path && !this.entries[i].reverted) {
+				return this.entries[i];
+			}
+		}
+		return null;
+	}
+
+	async markReverted(ids: string[]): Promise<void> {
+		this.entries.forEach(entry => {
+			if (ids.includes(entry.id)) entry.reverted = true;
+		});
+		await this.save();
+	}
+
+	/**
+	 * Follow a note that was renamed or moved
+	 */
+	async renamePath(oldPath: string, newPath: string): Promise<void> {
+		if (!this.entries.some(entry => entry.path === oldPath)) return;
+		this.entries.forEach(entry => {
+			if (entry.path === oldPath) entry.path = newPath;
+		});
+		await this.save();
+	}
+
+	private async save(): Promise<void> {
+		try {
+			await this.app.vault.adapter.write(this.path, JSON.stringify(this.entries));
+		} catch (error) {
+			console.error('Error saving tag journal:', error);
+		}
+	}
+}
+
+/**
+ * Put the tags of journal entries back as they were before each change.
+ * Only the tags are touched, so a note the plugin created keeps its content
+ * and loses its tags. A note whose tags have changed since is left alone.
+ * @param app The Obsidian App instance
+ * @param journal The journal the entries came from
+ * @param entries The entries to revert
+ * @param style The list format and quoting to write; the property comes from each entry
+ */
+export async function revertTagChanges(
+	app: App,
+	journal: TagJournal,
+	entries: TagJournalEntry[],
+	style: TagListStyle
+): Promise<TagRevertResult> {
+	const result: TagRevertResult = { reverted: 0, skipped: [] };
+	const revertedIds: string[] = [];
+
+	// Newest first, so several changes to one note unwind in order
+	const ordered = [...entries].sort((a, b) => b.timestamp - a.timestamp);
+	for (const entry of ordered) {
+		const file = app.vault.getAbstractFileByPath(entry.path);
+		if (!(file instanceof TFile)) {
+			result.skipped.push(entry.path);
+			continue;
+		}
+
+		try {
+			const entryStyle = { ...style, property: entry.property || 'tags' };
+			const content = await app.vault.read(file);
+			if (!sameTags(readTags(content, entry.placement, entryStyle.property), entry.tagsAfter)) {
+				result.skipped.push(entry.path);
+				continue;
+			}
+
+			await app.vault.modify(file, writeTags(content, entry.tagsBefore, entry.placement, entryStyle));
+			revertedIds.push(entry.id);
+			result.reverted++;
+		} catch (error) {
+			console.error(`Error reverting tags for ${entry.path}:`, error);
+			result.skipped.push(entry.path);
+		}
+	}
+
+	await journal.markReverted(revertedIds);
+	return result;
+}
+
+/**
+ * Tell the user how a revert went
+ */
+export function notifyTagRevert(result: TagRevertResult): void {
+	let message = `Reverted tags on ${result.reverted} note${result.reverted !== 1 ? 's' : ''}`;
+	if (result.skipped.length > 0) {
+		message += `. Left ${result.skipped.join(', ')} alone because the tags changed since or the note is gone`;
+	}
+	new Notice(message);
+}
+
+/**
+ * Read tags from where they were placed
+ */
+export function readTags(content: string, placement: TagPlacement, property: string = 'tags'): string[] {
+	return placement === 'top' || placement === 'bottom'
+		? getInlineTags(content)
+		: getFrontmatterTags(content, property);
+}
+
+/**
+ * Write an exact list of tags where they were placed
+ */
+function writeTags(content: string, tags: string[], placement: TagPlacement, style: TagListStyle): string {
+	if (placement === 'frontmatter') {
+		return setFrontmatterTags(content, tags, style);
+	}
+	if (placement === 'both') {
+		return setInlineTags(setFrontmatterTags(content, tags, style), tags, 'bottom');
+	}
+	return setInlineTags(content, tags, placement);
+}
+
+/**
+ * Compare two tag lists ignoring order
+ */
+function sameTags(a: string[], b: string[]): boolean {
+	return a.length === b.length && a.every(tag => b.includes(tag));
+}
+
+let activeJournal: TagJournal | null = null;
+
+/**
+ * Create the plugin's tag journal, stored in the plugin folder
+ * @param app The Obsidian App instance
+ * @param pluginDir The plugin's folder in the vault config directory
+ */
+export function initTagJournal(app: App, pluginDir: string): TagJournal {
+	activeJournal = new TagJournal(app, normalizePath(`${pluginDir}/tag-journal.json`));
+	return activeJournal;
+}
+
+/**
+ * Get the plugin's tag journal, if it has been initialised
+ */
+export function getTagJournal(): TagJournal | null {
+	return activeJournal;
+}
@@ -1,30 +1,161 @@
-import { App, Notice, TFile } from 'obsidian';
-import { TagFilesAndNotesSettings, TagCaseFormat, LanguagePreference } from './types';
+import { App, Notice, TFile, TFolder, arrayBufferToBase64 } from 'obsidian';
+import { AIProvider, TagFilesAndNotesSettings, TagCaseFormat, LanguagePreference } from './types';
 import { formatTag, filterErroneousTags, replaceTemplateVariables, stripFrontmatter } from '../libs/utils';
-import { getTagsFromAI } from './aiApis';
-import { promptForManualTags } from './modals';
+import { getTagsFromAI, getImageTagsFromAI, runProviderChain, AIRequestContext } from './aiApis';
+import { promptForManualTags, promptForTagReview } from './modals';
 import { normalizeSpelling, normalizeForComparison } from '../libs/spellingNormalizer';
-import { ERROR_MESSAGES, TIMEOUTS, DEFAULT_VALUES } from '../libs/constants';
-import { handleOperationError, handleAIError } from '../libs/errorHandling';
+import { ERROR_MESSAGES, TIMEOUTS, DEFAULT_VALUES, IMAGE_MIME_TYPES } from '../libs/constants';
+import { handleOperationError, isCancellationError } from '../libs/errorHandling';
+import { CancellationToken } from '../libs/cancellation';
+import { ProgressNotice } from './progressNotice';
+import { splitIntoChunks } from '../libs/chunking';
+import { getTagCache, TagCacheKey } from './tagCache';
+import { snapToVaultTags, getVaultTags } from './vaultTags';
+import { loadVocabulary, enforceVocabulary } from './vocabulary';
+import { buildVocabularyInstruction, Vocabulary } from '../libs/vocabulary';
+import { applyTagHierarchy, buildHierarchyInstruction, TagHierarchyOptions } from '../libs/tagHierarchy';
+import { getProvider } from '../providers/registry';
+import { getProviderOptions } from '../providers/shared';
+import { ImageTagResult } from '../providers/types';
+import { TemplateVariables } from '../libs/template';
+import { hasFrontmatter, splitFrontmatter, getFrontmatterTags, setFrontmatterTags, setFrontmatterValue, TagListStyle, DEFAULT_TAG_LIST_STYLE } from '../libs/frontmatter';
+import { getInlineTags, getInlineTagLine, setInlineTags } from '../libs/inlineTags';
+import { getTagJournal, readTags, createJournalId } from './tagJournal';
+import { extractFields, applyFields } from './fields';
 
 /**
- * Core tag generation service that handles AI provider selection and error handling
+ * Options for a single tag generation run
  */
-export async function generateTags(text: string, settings: TagFilesAndNotesSettings, app: App): Promise<string[]> {
-    let loadingNotice: Notice | null = null;
+export interface GenerateTagsOptions {
+    /** Ignore cached results and always ask the AI provider */
+    bypassCache?: boolean;
+    /** Token to cancel generation; one is created for the progress notice if not given */
+    cancellation?: CancellationToken;
+    /** The file being tagged, recorded in the usage ledger */
+    sourcePath?: string;
+    /** Groups the change with others in the tag journal, so a batch run can be reverted at once */
+    runId?: string;
+}
+
+/**
+ * Request context once a cancellation token has been created
+ */
+type GenerationContext = AIRequestContext & { cancellation: CancellationToken };
+
+const CONSOLIDATION_PROMPT = 'The following candidate tags were generated for separate sections of one document. The number after each tag is how many sections suggested it. Choose the {{max_tags}} tags that best describe the whole document. Each tag MUST have {{max_words}} words or fewer. Return ONLY a comma-separated list of the chosen tags, without the numbers.';
+
+/**
+ * Tags and the provider that produced them
+ */
+export interface TagGenerationResult {
+    tags: string[];
+    provider: AIProvider;
+}
+
+/**
+ * Image tags, description and the provider that produced them
+ */
+export interface ImageTagGenerationResult extends ImageTagResult {
+    provider: AIProvider;
+}
+
+/**
+ * Core tag generation service. Tries the selected provider, then each
+ * fallback provider when one fails or returns no tags.
+ */
+export async function generateTags(
+    text: string,
+    settings: TagFilesAndNotesSettings,
+    app: App,
+    options: GenerateTagsOptions = {}
+): Promise<TagGenerationResult> {
+    const cancellation = options.cancellation || new CancellationToken();
+    const vocabulary = await loadVocabulary(app, settings);
+    const prompt = prepareTagPrompt(settings, vocabulary);
+    const result = await runProviderChain(settings, app, 'text', async (providerSettings) => {
+        const tags = await generateTagsWithProvider(text, prompt, providerSettings, { ...options, cancellation });
+        return tags.length > 0 ? { tags } : null;
+    });
+    if (!result) {
+        return { tags: [], provider: settings.aiProvider };
+    }
+    return { ...result, tags: postProcessTags(result.tags, vocabulary, settings) };
+}
+
+/**
+ * Generate tags for an image with the provider's vision model, used when
+ * an image has no text for OCR to extract
+ */
+export async function generateImageTags(
+    file: TFile,
+    settings: TagFilesAndNotesSettings,
+    app: App,
+    options: GenerateTagsOptions = {}
+): Promise<ImageTagGenerationResult> {
+    const cancellation = options.cancellation || new CancellationToken();
+    const imageData = await app.vault.readBinary(file);
+    const vocabulary = await loadVocabulary(app, settings);
+    const prompt = prepareTagPrompt(settings, vocabulary);
+    const result = await runProviderChain(settings, app, 'image', async (providerSettings) => {
+        const imageResult = await generateImageTagsWithProvider(file, imageData, prompt, providerSettings, { cancellation, sourcePath: file.path });
+        return imageResult.tags.length > 0 ? imageResult : null;
+    });
+    if (!result) {
+        return { tags: [], provider: settings.aiProvider };
+    }
+    return { ...result, tags: postProcessTags(result.tags, vocabulary, settings) };
+}
+
+/**
+ * Generate tags with a single provider, using the cache when enabled
+ */
+async function generateTagsWithProvider(
+    text: string,
+    finalPrompt: string,
+    settings: TagFilesAndNotesSettings,
+    options: GenerateTagsOptions & { cancellation: CancellationToken }
+): Promise<string[]> {
+    let loadingNotice: ProgressNotice | null = null;
     try {
         const provider = settings.aiProvider;
+
+        const cache = settings.cacheEnabled ? getTagCache() : null;
+        const cacheKey: TagCacheKey = {
+            text,
+            prompt: finalPrompt,
+            provider,
+            model: getProvider(provider)?.getModel(settings) || '',
+            maxTags: settings.maxTags,
+            maxWordsPerTag: settings.maxWordsPerTag
+        };
+
+        if (cache && !options.bypassCache) {
+            const cachedTags = await cache.get(cacheKey);
+            if (cachedTags) {
+                console.log('Using cached tags:', cachedTags);
+                new Notice('Using cached tags for unchanged content');
+                return cachedTags;
+            }
+        }
+
         console.log(`Generating tags using ${provider}`);
 
-        loadingNotice = new Notice(`Connecting to ${provider}... This may take up to 30 seconds`, TIMEOUTS.AI_REQUEST);
+        const cancellation = options.cancellation;
+        loadingNotice = new ProgressNotice(
+            `Connecting to ${provider}... This may take up to ${settings.requestTimeoutSeconds} seconds`,
+            () => cancellation.cancel()
+        );
 
-        const finalPrompt = preparePrompt(settings);
-        const validTags = await generateValidTags(text, settings, finalPrompt);
+        const context: GenerationContext = { cancellation, sourcePath: options.sourcePath };
+        const validTags = await generateChunkedTags(text, settings, finalPrompt, context, (done, total) => {
+            loadingNotice?.setMessage(`Generating tags with ${provider}... section ${done + 1} of ${total}`);
+        });
+
+        if (cache && validTags.length > 0) {
+            await cache.set(cacheKey, validTags);
+        }
 
         return validTags;
-    } catch (error) {
-        handleAIError(settings.aiProvider, error as Error, app);
-        throw error;
     } finally {
         if (loadingNotice) {
             loadingNotice.hide();
@@ -32,25 +163,166 @@ export async function generateTags(text: string, settings: TagFilesAndNotesSetti
     }
 }
 
+/**
+ * Generate tags for an image with a single provider
+ */
+async function generateImageTagsWithProvider(
+    file: TFile,
+    imageData: ArrayBuffer,
+    prompt: string,
+    settings: TagFilesAndNotesSettings,
+    context: GenerationContext
+): Promise<ImageTagResult> {
+    const { cancellation } = context;
+    let loadingNotice: ProgressNotice | null = null;
+    try {
+        const provider = settings.aiProvider;
+        console.log(`Generating image tags using ${provider}`);
+
+        loadingNotice = new ProgressNotice(
+            `Sending image to ${provider}... This may take up to ${settings.requestTimeoutSeconds} seconds`,
+            () => cancellation.cancel()
+        );
+
+        const result = await getImageTagsFromAI({
+            prompt,
+            imageBase64: arrayBufferToBase64(imageData),
+            mimeType: IMAGE_MIME_TYPES[file.extension.toLowerCase()],
+            describe: settings.includeImageDescription,
+            cancellation
+        }, settings, context.sourcePath);
+        console.log('Image tags received:', result);
+
+        const { validTags } = filterErroneousTags(result.tags, settings.maxWordsPerTag);
+        return { ...result, tags: validTags };
+    } finally {
+        if (loadingNotice) {
+            loadingNotice.hide();
+        }
+    }
+}
+
+/**
+ * Prepare the tag prompt, adding instructions for nested tags and the
+ * allowed and blocked tags when a controlled vocabulary is in use
+ */
+function prepareTagPrompt(settings: TagFilesAndNotesSettings, vocabulary: Vocabulary | null): string {
+    const instructions = [
+        preparePrompt(settings),
+        settings.nestedTags ? buildHierarchyInstruction(getHierarchyOptions(settings)) : '',
+        vocabulary ? buildVocabularyInstruction(vocabulary, settings.vocabularyStrict) : ''
+    ];
+    return instructions.filter(instruction => instruction.length > 0).join('\n\n');
+}
+
+/**
+ * Apply the vocabulary, then place tags under their roots when nested tags are on
+ */
+function postProcessTags(tags: string[], vocabulary: Vocabulary | null, settings: TagFilesAndNotesSettings): string[] {
+    const vocabularyTags = vocabulary ? enforceVocabulary(tags, vocabulary, settings).tags : tags;
+    return settings.nestedTags ? applyTagHierarchy(vocabularyTags, getHierarchyOptions(settings)) : vocabularyTags;
+}
+
+/**
+ * Get the nested tag options from settings
+ */
+function getHierarchyOptions(settings: TagFilesAndNotesSettings): TagHierarchyOptions {
+    return { roots: settings.nestedTagRoots, maxDepth: settings.nestedTagMaxDepth };
+}
+
 /**
  * Prepare the AI prompt with variables
  */
-function preparePrompt(settings: TagFilesAndNotesSettings): string {
-    return settings.aiPrompt
+function preparePrompt(settings: TagFilesAndNotesSettings, template: string = settings.aiPrompt): string {
+    return template
         .replace('{{max_tags}}', settings.maxTags.toString())
         .replace('{{max_words}}', settings.maxWordsPerTag.toString());
 }
 
+/**
+ * Generate tags for text of any length. Text that fits the chunk budget is
+ * tagged in one request; longer text is split into chunks, each chunk is
+ * tagged, and the candidates are reduced to the final set.
+ */
+async function generateChunkedTags(
+    text: string,
+    settings: TagFilesAndNotesSettings,
+    prompt: string,
+    context: GenerationContext,
+    onProgress?: (done: number, total: number) => void
+): Promise<string[]> {
+    if (getProvider(settings.aiProvider)?.offline) {
+        return generateValidTags(text, settings, prompt, context);
+    }
+
+    const chunks = splitIntoChunks(text, getProviderOptions(settings, settings.aiProvider).maxInputTokens);
+    if (chunks.length <= 1) {
+        return generateValidTags(text, settings, prompt, context);
+    }
+
+    console.log(`Text split into ${chunks.length} chunks`);
+    const chunkTags: string[][] = [];
+    for (let i = 0; i < chunks.length; i++) {
+        onProgress?.(i, chunks.length);
+        chunkTags.push(await generateValidTags(chunks[i], settings, prompt, context));
+    }
+
+    return reduceChunkTags(chunkTags, settings, context);
+}
+
+/**
+ * Reduce per-chunk candidate tags to at most maxTags, ranking by how many
+ * chunks suggested each tag and asking the AI to consolidate the candidates
+ */
+async function reduceChunkTags(
+    chunkTags: string[][],
+    settings: TagFilesAndNotesSettings,
+    context: GenerationContext
+): Promise<string[]> {
+    const candidates = new Map<string, { tag: string, count: number }>();
+    chunkTags.forEach(tags => {
+        // Count each tag once per chunk
+        new Set(tags.map(tag => normalizeForComparison(tag))).forEach(key => {
+            const existing = candidates.get(key);
+            if (existing) {
+                existing.count++;
+            } else {
+                candidates.set(key, { tag: tags.find(tag => normalizeForComparison(tag) === key) as string, count: 1 });
+            }
+        });
+    });
+
+    const ranked = [...candidates.values()].sort((a, b) => b.count - a.count);
+    console.log('Candidate tags by frequency:', ranked);
+
+    if (ranked.length <= settings.maxTags) {
+        return ranked.map(candidate => candidate.tag);
+    }
+
+    const candidateList = ranked.map(candidate => `${candidate.tag} (${candidate.count})`).join(', ');
+    const consolidated = await generateValidTags(candidateList, settings, preparePrompt(settings, CONSOLIDATION_PROMPT), context);
+
+    // Fall back to the most frequent candidates if consolidation returned nothing useful
+    const finalTags = consolidated.length > 0 ? consolidated : ranked.map(candidate => candidate.tag);
+    return finalTags.slice(0, settings.maxTags);
+}
+
 /**
  * Generate valid tags with retry logic
  */
-async function generateValidTags(text: string, settings: TagFilesAndNotesSettings, prompt: string): Promise<string[]> {
+async function generateValidTags(
+    text: string,
+    settings: TagFilesAndNotesSettings,
+    prompt: string,
+    context: GenerationContext
+): Promise<string[]> {
     let passes = 0;
     let validTags: string[] = [];
 
     while (passes < DEFAULT_VALUES.MAX_RETRIES) {
+        context.cancellation.throwIfCancelled();
         console.log(`Attempt ${passes + 1} of ${DEFAULT_VALUES.MAX_RETRIES}`);
-        const rawTags = await getTagsFromAI(text, settings);
+        const rawTags = await getTagsFromAI(text, prompt, settings, context);
         console.log('Raw tags received:', rawTags);
         passes++;
 
@@ -87,38 +359,190 @@ export async function handleMarkdownTagGeneration(
     app: App,
     file: TFile,
     settings: TagFilesAndNotesSettings,
-    mode: 'append' | 'replace' = 'append'
+    mode: 'append' | 'replace' = 'append',
+    options: GenerateTagsOptions = {}
 ): Promise<void> {
     try {
         const content = await app.vault.read(file);
         const cleanedContent = stripFrontmatter(content);
-        
-        const tags = await generateTags(cleanedContent, settings, app);
-        if (!tags.length) {
+
+        // One token for the whole run, so cancelling also stops field extraction
+        const cancellation = options.cancellation || new CancellationToken();
+        const result = await generateTags(cleanedContent, settings, app, { ...options, cancellation, sourcePath: file.path });
+        if (!result.tags.length) {
             new Notice(ERROR_MESSAGES.AI_RESPONSE_EMPTY);
             return;
         }
+        const { provider } = result;
+        let { tags } = snapToVaultTags(app, result.tags, settings);
+        let writeMode = mode;
+        const fields = await extractFields(cleanedContent, settings, app, { cancellation, sourcePath: file.path });
 
-        const updatedContent = await manageFrontmatterTags(
-            content,
-            tags,
-            settings.tagCaseFormat,
-            mode,
-            settings.defaultTemplate,
-            {
+        const applyTags = async (noteContent: string, tagsToWrite: string[], tagMode: 'append' | 'replace') => {
+            const taggedContent = applyFields(await placeTags(noteContent, tagsToWrite, tagMode, settings, {
                 title: file.basename,
-                date: new Date().toISOString().split('T')[0]
-            },
-            settings.languagePreference
-        );
+                date: new Date()
+            }), fields, settings);
+            return settings.recordTaggedBy
+                ? setFrontmatterValue(taggedContent, settings.taggedByProperty, provider)
+                : taggedContent;
+        };
+
+        if (settings.reviewTagsBeforeWriting) {
+            // The review lists existing tags too, so its result replaces the note's tags
+            const reviewed = await promptForTagReview(app, {
+                title: `Review tags for ${file.basename}`,
+                suggested: tags,
+                existing: getPlacedTags(content, settings),
+                keepExisting: mode === 'append',
+                vaultTags: getVaultTags(app),
+                preview: async selected => ({
+                    before: getTagPreviewLines(content),
+                    after: getTagPreviewLines(await applyTags(content, selected, 'replace'))
+                })
+            });
+            if (!reviewed) {
+                new Notice(ERROR_MESSAGES.AI_REQUEST_CANCELLED);
+                return;
+            }
+            tags = reviewed;
+            writeMode = 'replace';
+        }
 
+        // Read again in case the note changed while tags were generated or reviewed
+        const latestContent = await app.vault.read(file);
+        const updatedContent = await applyTags(latestContent, tags, writeMode);
         await app.vault.modify(file, updatedContent);
-        notifyTagUpdate(tags.length, file.name, mode);
+        await getTagJournal()?.record({
+            runId: options.runId || createJournalId(),
+            path: file.path,
+            mode: writeMode,
+            provider,
+            placement: settings.tagPlacement,
+            property: getTagListStyle(settings).property,
+            tagsBefore: getPlacedTags(latestContent, settings),
+            tagsAfter: getPlacedTags(updatedContent, settings)
+        });
+        notifyTagUpdate(tags.length, file.name, writeMode);
     } catch (error) {
+        // generateTags has already told the user it was cancelled
+        if (isCancellationError(error)) {
+            return;
+        }
         handleOperationError('Tag generation', error as Error, app);
     }
 }
 
+/**
+ * Generate tags for every note in a folder as one run, so "Undo last tag
+ * change" reverts them all at once. Cancelling stops the remaining notes.
+ * @param app The Obsidian App instance
+ * @param folder The folder whose notes are tagged, not including subfolders
+ * @param settings Plugin settings
+ * @param mode Whether to add to or replace existing tags
+ */
+export async function handleFolderTagGeneration(
+    app: App,
+    folder: TFolder,
+    settings: TagFilesAndNotesSettings,
+    mode: 'append' | 'replace' = 'append'
+): Promise<void> {
+    const files = folder.children.filter((child): child is TFile => child instanceof TFile && child.extension === 'md');
+    if (files.length === 0) {
+        new Notice(`No notes in ${folder.path}`);
+        return;
+    }
+
+    const options: GenerateTagsOptions = { runId: createJournalId(), cancellation: new CancellationToken() };
+    for (const file of files) {
+        if (options.cancellation?.isCancelled) {
+            break;
+        }
+        await handleMarkdownTagGeneration(app, file, settings, mode, options);
+    }
+}
+
+/**
+ * Write tags where the tag placement setting puts them: the frontmatter,
+ * an inline #tag line at the top or bottom of the body, or both the
+ * frontmatter and a line at the bottom
+ * @param content The note content
+ * @param newTags The tags to write
+ * @param mode Whether to merge with or replace the tags already there
+ * @param settings Plugin settings
+ * @param templateVars Variables for the frontmatter template
+ * @param isNewNote New notes always get the template frontmatter, even when tags go inline
+ * @returns The updated content
+ */
+export async function placeTags(
+    content: string,
+    newTags: string[],
+    mode: 'append' | 'replace',
+    settings: TagFilesAndNotesSettings,
+    templateVars: TemplateVariables,
+    isNewNote: boolean = false
+): Promise<string> {
+    const placement = settings.tagPlacement;
+    const style = getTagListStyle(settings);
+    const updateFrontmatter = (noteContent: string, tags: string[], tagMode: 'append' | 'replace') => manageFrontmatterTags(
+        noteContent,
+        tags,
+        settings.tagCaseFormat,
+        tagMode,
+        settings.defaultTemplate,
+        templateVars,
+        settings.languagePreference,
+        style
+    );
+
+    if (placement === 'frontmatter') {
+        return updateFrontmatter(content, newTags, mode);
+    }
+    if (placement === 'both') {
+        // The inline line mirrors the frontmatter list
+        const updated = await updateFrontmatter(content, newTags, mode);
+        return setInlineTags(updated, getFrontmatterTags(updated, style.property), 'bottom');
+    }
+
+    const base = isNewNote ? await updateFrontmatter(content, [], 'replace') : content;
+    const finalTags = mode === 'append'
+        ? mergeTags(getInlineTags(base), newTags, settings.languagePreference)
+        : newTags;
+    return setInlineTags(base, formatTags(finalTags, settings.tagCaseFormat), placement);
+}
+
+/**
+ * Get the tags already written where the tag placement setting puts them
+ * @param content The note content
+ * @param settings Plugin settings
+ */
+export function getPlacedTags(content: string, settings: TagFilesAndNotesSettings): string[] {
+    return readTags(content, settings.tagPlacement, getTagListStyle(settings).property);
+}
+
+/**
+ * Get the frontmatter property, list format and quoting for tags from settings
+ */
+export function getTagListStyle(settings: TagFilesAndNotesSettings): TagListStyle {
+    return {
+        property: settings.tagProperty.trim() || DEFAULT_TAG_LIST_STYLE.property,
+        format: settings.tagListFormat,
+        quoting: settings.tagQuoting
+    };
+}
+
+/**
+ * Get the lines that hold a note's tags, for previewing changes: the
+ * frontmatter and the inline tag line
+ * @param content The note content
+ */
+export function getTagPreviewLines(content: string): string[] {
+    const parts = splitFrontmatter(content);
+    const lines = parts ? ['---', ...parts.lines, '---'] : [];
+    const inlineLine = getInlineTagLine(content);
+    return inlineLine ? [...lines, inlineLine] : lines;
+}
+
 /**
  * Manage frontmatter tags in a file
  */
@@ -128,23 +552,17 @@ export async function manageFrontmatterTags(
     tagCaseFormat: TagCaseFormat,
     mode: 'append' | 'replace',
     templateStr: string,
-    templateVars: Record<string, string>,
-    languagePreference: LanguagePreference
+    templateVars: TemplateVariables,
+    languagePreference: LanguagePreference,
+    style: TagListStyle = DEFAULT_TAG_LIST_STYLE
 ): Promise<string> {
     if (hasFrontmatter(content)) {
-        return updateExistingFrontmatter(content, newTags, tagCaseFormat, mode, languagePreference);
+        return updateExistingFrontmatter(content, newTags, tagCaseFormat, mode, languagePreference, style);
     } else {
-        return createNewFrontmatter(content, newTags, tagCaseFormat, templateStr, templateVars);
+        return createNewFrontmatter(content, newTags, tagCaseFormat, templateStr, templateVars, style);
     }
 }
 
-/**
- * Check if content has frontmatter
- */
-function hasFrontmatter(content: string): boolean {
-    return content.startsWith('---\n');
-}
-
 /**
  * Update existing frontmatter with new tags
  */
@@ -153,17 +571,10 @@ function updateExistingFrontmatter(
     newTags: string[],
     tagCaseFormat: TagCaseFormat,
     mode: 'append' | 'replace',
-    languagePreference: LanguagePreference
+    languagePreference: LanguagePreference,
+    style: TagListStyle
 ): string {
-    const frontmatterEnd = content.indexOf('---\n', 4);
-    if (frontmatterEnd === -1) return content;
-
-    const frontmatter = content.substring(0, frontmatterEnd + 4);
-    const body = content.substring(frontmatterEnd + 4);
-
-    console.log('Original frontmatter:', frontmatter);
-    
-    const existingTags = extractExistingTags(frontmatter);
+    const existingTags = getFrontmatterTags(content, style.property);
     console.log('Existing tags:', existingTags);
     
     const finalTags = mode === 'append' 
@@ -172,74 +583,26 @@ function updateExistingFrontmatter(
     
     console.log('Final tags to add:', finalTags);
 
-    const updatedFrontmatter = updateFrontmatterTags(frontmatter, finalTags, tagCaseFormat);
-    console.log('Updated frontmatter:', updatedFrontmatter);
-
-    return updatedFrontmatter + body;
+    return setFrontmatterTags(content, formatTags(finalTags, tagCaseFormat), style);
 }
 
 /**
- * Create new frontmatter with tags
+ * Create new frontmatter from the template and add the tags to it
  */
 function createNewFrontmatter(
     content: string,
     tags: string[],
     tagCaseFormat: TagCaseFormat,
     templateStr: string,
-    templateVars: Record<string, string>
+    templateVars: TemplateVariables,
+    style: TagListStyle
 ): string {
-    const formattedTags = formatTagsAsYamlList(tags, tagCaseFormat);
+    // The tags are written as YAML below, wherever {{tags}} appeared in the template
     const frontmatter = replaceTemplateVariables(templateStr, {
         ...templateVars,
-        tags: formattedTags
-    });
-    return frontmatter + '\n\n' + content;
-}
-
-/**
- * Extract existing tags from frontmatter
- */
-function extractExistingTags(frontmatter: string): string[] {
-    // Try to match YAML list format first (most common)
-    // Format: tags:\n- tag1\n- tag2
-    const yamlListMatch = frontmatter.match(/tags:\s*\n((?:\s*-\s*["']?(.*?)["']?\s*\n)+)/i);
-    if (yamlListMatch && yamlListMatch[1]) {
-        const yamlListContent = yamlListMatch[1];
-        const regex = /\s*-\s*["']?(.*?)["']?\s*\n/gi;
-        let match;
-        const tags: string[] = [];
-        while ((match = regex.exec(yamlListContent)) !== null) {
-            if (match[1]) {
-                const tag = match[1].trim();
-                if (tag !== '--') {
-                    tags.push(tag);
-                }
-            }
-        }
-        return tags;
-    }
-    
-    // Try to match inline array format
-    // Format: tags: [tag1, tag2]
-    const inlineArrayMatch = frontmatter.match(/tags:\s*\[(.*?)\]/i);
-    if (inlineArrayMatch && inlineArrayMatch[1]) {
-        return inlineArrayMatch[1]
-            .split(',')
-            .map(tag => tag.trim().replace(/^['"]|['"]$/g, ''))
-            .filter(tag => tag && tag !== '--');
-    }
-    
-    // Try to match single tag format
-    // Format: tags: tag1
-    const singleTagMatch = frontmatter.match(/tags:\s*(.*?)(?:\n|$)/i);
-    if (singleTagMatch && singleTagMatch[1]) {
-        const singleTag = singleTagMatch[1].trim();
-        if (singleTag && singleTag !== "[]" && singleTag !== '--') {
-            return [singleTag.replace(/["']/g, '')];
-        }
-    }
-    
-    return [];
+        tags: null
+    }, { yaml: true });
+    return setFrontmatterTags(frontmatter + '\n\n' + content, formatTags(tags, tagCaseFormat), style);
 }
 
 /**
@@ -253,33 +616,12 @@ function mergeTags(existingTags: string[], newTags: string[], languagePreference
 }
 
 /**
- * Update frontmatter with new tags
+ * Apply the tag case format, dropping stray frontmatter markers
  */
-function updateFrontmatterTags(frontmatter: string, tags: string[], tagCaseFormat: TagCaseFormat): string {
-    const formattedTags = tags
+function formatTags(tags: string[], tagCaseFormat: TagCaseFormat): string[] {
+    return tags
         .filter(tag => tag !== '--')
-        .map(tag => `- ${formatTag(tag, tagCaseFormat)}`)
-        .join('\n');
-    
-    // Check if tags section exists
-    if (frontmatter.includes('tags:')) {
-        // Replace existing tags section with proper spacing
-        const updatedFrontmatter = frontmatter.replace(
-            /tags:[\s\S]*?(?=\n\w|$)/,
-            `tags:\n${formattedTags}`
-        );
-        return `${updatedFrontmatter}\n---\n`;
-    } else {
-        // Add tags section before the end of frontmatter with proper spacing
-        return frontmatter.replace(/---\n$/, `tags:\n${formattedTags}\n---\n`);
-    }
-}
-
-/**
- * Format tags as YAML list
- */
-function formatTagsAsYamlList(tags: string[], tagCaseFormat: TagCaseFormat): string {
-    return `[${tags.map(tag => `"${formatTag(tag, tagCaseFormat)}"`).join(', ')}]`;
+        .map(tag => formatTag(tag, tagCaseFormat));
 }
 
 /**
@@ -1,41 +1,181 @@
 import { TFile } from 'obsidian';
+import { TIMEOUTS } from '../libs/constants';
 
-export type AIProvider = 'openai' | 'gemini' | 'ollama' | 'mistral';
+export type AIProvider = 'openai' | 'gemini' | 'ollama' | 'mistral' | 'openai-compatible' | 'local';
 export type TagCaseFormat = 'lowercase' | 'uppercase' | 'titlecase' | 'retain';
+export type TagPlacement = 'frontmatter' | 'top' | 'bottom' | 'both';
+export type TagListFormat = 'block' | 'flow' | 'string';
+export type TagQuoting = 'auto' | 'double' | 'single';
+export type NotesLocation = 'same' | 'fixed' | 'mirror';
+
 export type LanguagePreference = 'uk' | 'us';
+export type FieldType = 'text' | 'number' | 'date' | 'enum' | 'list' | 'boolean';
+
+/**
+ * A frontmatter field the AI extracts from the document
+ */
+export interface FieldDefinition {
+	name: string;
+	type: FieldType;
+	description: string;
+	/** Allowed values for enum fields */
+	values: string[];
+}
+
+/**
+ * Generation options that can be tuned separately for each provider
+ */
+export interface ProviderOptions {
+	temperature: number;
+	maxInputTokens: number;
+}
+
+export const DEFAULT_PROVIDER_OPTIONS: ProviderOptions = {
+	temperature: 0.3,
+	maxInputTokens: 4000
+};
+
+/**
+ * Defaults that differ by provider. The input sizes leave room for the
+ * prompt and reply within the context of the provider's usual models.
+ */
+export const PROVIDER_DEFAULT_OPTIONS: Partial<Record<AIProvider, Partial<ProviderOptions>>> = {
+	// 128k context for the GPT-4o family
+	openai: { maxInputTokens: 16000 },
+	// 1M context for Gemini 1.5 and 2.0
+	gemini: { maxInputTokens: 32000 },
+	// 32k context or more for current Mistral models
+	mistral: { maxInputTokens: 16000 },
+	// Ollama and most local servers default to a 4096 token context
+	ollama: { maxInputTokens: 3000 },
+	'openai-compatible': { maxInputTokens: 3000 }
+};
 
 export interface TagFilesAndNotesSettings {
 	defaultTemplate: string;
+	noteTemplatePath: string;
+	notesLocation: NotesLocation;
+	notesDirectory: string;
+	noteNamePattern: string;
+	moveSourceFile: boolean;
+	attachmentsFolder: string;
 	acceptedFileTypes: string[];
 	maxTags: number;
 	includeExtractedText: boolean;
+	includeImageDescription: boolean;
+	generateSummary: boolean;
+	includeSummarySection: boolean;
+	summaryPrompt: string;
 	maxWordsPerTag: number;
 	tagCaseFormat: TagCaseFormat;
+	tagPlacement: TagPlacement;
+	tagProperty: string;
+	tagListFormat: TagListFormat;
+	tagQuoting: TagQuoting;
 	languagePreference: LanguagePreference;
+	reviewTagsBeforeWriting: boolean;
+	snapToVaultTags: boolean;
+	tagSnapMaxDistance: number;
+	vocabularyEnabled: boolean;
+	vocabularyPath: string;
+	vocabularyStrict: boolean;
+	nestedTags: boolean;
+	nestedTagRoots: string[];
+	nestedTagMaxDepth: number;
+	extractFields: boolean;
+	fieldSchema: FieldDefinition[];
+	overwriteFields: boolean;
 	aiPrompt: string;
+	structuredOutput: boolean;
+	requestTimeoutSeconds: number;
+	cacheEnabled: boolean;
+	cacheMaxEntries: number;
+	cacheMaxAgeDays: number;
+	modelPrices: string;
+	monthlyBudget: number;
 	aiProvider: AIProvider;
+	fallbackProviders: AIProvider[];
+	recordTaggedBy: boolean;
+	taggedByProperty: string;
+	/** Only the options the user changed; the rest come from the provider defaults */
+	providerOptions: Partial<Record<AIProvider, Partial<ProviderOptions>>>;
 	openAIApiKey: string;
+	openAIModel: string;
 	mistralAiApiKey:string,
-	googleClientId?: string;
-	googleClientSecret?: string;
+	mistralModel: string;
+	geminiApiKey: string;
+	geminiModel: string;
 	ollamaHost: string;
 	ollamaModel: string;
+	ollamaVisionModel: string;
+	openAICompatibleBaseUrl: string;
+	openAICompatibleModel: string;
+	openAICompatibleVisionModel: string;
+	openAICompatibleApiKey: string;
+	openAICompatibleHeaders: string;
 }
 
 export const DEFAULT_SETTINGS: TagFilesAndNotesSettings = {
 	defaultTemplate: '---\ntitle: {{title}}\ndate: {{date}}\ntags: []\n---',
+	noteTemplatePath: '',
+	notesLocation: 'same',
+	notesDirectory: 'Notes',
+	noteNamePattern: '{{basename}}',
+	moveSourceFile: false,
+	attachmentsFolder: 'attachments',
 	acceptedFileTypes: ['pdf'],
 	aiProvider: 'openai',
+	fallbackProviders: [],
+	recordTaggedBy: false,
+	taggedByProperty: 'tagged_by',
+	providerOptions: {},
 	openAIApiKey: '',
+	openAIModel: 'gpt-4o-mini',
 	mistralAiApiKey:'',
+	mistralModel: 'mistral-small-latest',
+	geminiApiKey: '',
+	geminiModel: 'gemini-2.0-flash',
 	maxTags: 5,
 	includeExtractedText: false,
+	includeImageDescription: true,
+	generateSummary: false,
+	includeSummarySection: true,
+	summaryPrompt: 'Write an abstract of this document in two to four sentences, then list up to five key points. Keep the language of the document.',
 	aiPrompt: 'Generate {{max_tags}} relevant tags for this text. Each tag MUST have {{max_words}} words or fewer. Return ONLY a comma-separated list. For multi-word tags, use hyphens to join words. Example format: "single-word, two-words, another-tag". Do not use spaces within tags.',
+	structuredOutput: false,
+	requestTimeoutSeconds: TIMEOUTS.AI_REQUEST / 1000,
+	cacheEnabled: true,
+	cacheMaxEntries: 500,
+	cacheMaxAgeDays: 30,
+	modelPrices: 'gpt-4o-mini: 0.15, 0.60\ngpt-4o: 2.50, 10.00\ngpt-3.5-turbo: 0.50, 1.50\nmistral-small-latest: 0.10, 0.30\nmistral-medium-latest: 0.40, 2.00\nmistral-large-latest: 2.00, 6.00\nopen-mistral-nemo: 0.15, 0.15\ngemini-2.0-flash: 0.10, 0.40\ngemini-2.0-flash-lite: 0.075, 0.30\ngemini-1.5-flash: 0.075, 0.30\ngemini-1.5-pro: 1.25, 5.00',
+	monthlyBudget: 0,
 	ollamaHost: 'http://localhost:11434',
 	ollamaModel: 'llama2',
+	ollamaVisionModel: 'llava',
+	openAICompatibleBaseUrl: 'http://localhost:1234/v1',
+	openAICompatibleModel: '',
+	openAICompatibleVisionModel: '',
+	openAICompatibleApiKey: '',
+	openAICompatibleHeaders: '',
 	maxWordsPerTag: 2,
 	tagCaseFormat: 'lowercase',
-	languagePreference: 'uk'
+	tagPlacement: 'frontmatter',
+	tagProperty: 'tags',
+	tagListFormat: 'block',
+	tagQuoting: 'auto',
+	languagePreference: 'uk',
+	reviewTagsBeforeWriting: false,
+	snapToVaultTags: false,
+	tagSnapMaxDistance: 2,
+	vocabularyEnabled: false,
+	vocabularyPath: 'Tag vocabulary.md',
+	vocabularyStrict: false,
+	nestedTags: false,
+	nestedTagRoots: [],
+	nestedTagMaxDepth: 2,
+	extractFields: false,
+	fieldSchema: [],
+	overwriteFields: false
 }
 
 export type TextExtractorApi = {
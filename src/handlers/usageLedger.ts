@@ -0,0 +1,235 @@
+import { App, normalizePath } from 'obsidian';
+import { TagFilesAndNotesSettings } from './types';
+
+/**
+ * One AI request recorded in the ledger
+ */
+export interface UsageEntry {
+	timestamp: number;
+	provider: string;
+	model: string;
+	inputTokens: number;
+	outputTokens: number;
+	/** True when the provider did not report usage and tokens were estimated from the text */
+	estimated: boolean;
+	cost: number;
+	durationMs: number;
+	path?: string;
+}
+
+/**
+ * Price of a model in currency units per million tokens
+ */
+export interface ModelPrice {
+	input: number;
+	output: number;
+}
+
+/**
+ * Summed usage over a period
+ */
+export interface UsageTotals {
+	requests: number;
+	inputTokens: number;
+	outputTokens: number;
+	cost: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Long enough to compare the same month across a year
+const MAX_AGE_DAYS = 400;
+
+// Charged for paid models when no prices are configured at all, per million tokens
+const UNPRICED_MODEL_PRICE: ModelPrice = { input: 2.5, output: 10 };
+
+/**
+ * Parse model prices entered as one "model: input, output" line per model
+ * @param priceText The raw price text from settings
+ * @returns Model ids (lower case) mapped to prices per million tokens
+ */
+export function parseModelPrices(priceText: string): Record<string, ModelPrice> {
+	const prices: Record<string, ModelPrice> = {};
+	(priceText || '').split(/\r?\n/).forEach(line => {
+		const separator = line.lastIndexOf(':');
+		if (separator <= 0) return;
+		const model = line.substring(0, separator).trim().toLowerCase();
+		const [input, output] = line.substring(separator + 1).split(',').map(value => parseFloat(value));
+		if (model && !isNaN(input)) {
+			prices[model] = { input, output: isNaN(output) ? input : output };
+		}
+	});
+	return prices;
+}
+
+/**
+ * Get the configured price for a model, if any
+ */
+export function getModelPrice(settings: TagFilesAndNotesSettings, model: string): ModelPrice | null {
+	return parseModelPrices(settings.modelPrices)[model.toLowerCase()] || null;
+}
+
+/**
+ * Get the price a request is charged at. A paid model without a configured
+ * price is charged at the highest configured price, so it still counts
+ * against the budget and errs towards stopping early.
+ * @param settings Plugin settings
+ * @param model The model used
+ * @param paid Whether the provider charges for the request
+ * @returns The price, or null if the request is free
+ */
+export function getChargedPrice(settings: TagFilesAndNotesSettings, model: string, paid: boolean): ModelPrice | null {
+	const price = getModelPrice(settings, model);
+	if (price || !paid) return price;
+
+	const priceList = parseModelPrices(settings.modelPrices);
+	const prices = Object.keys(priceList).map(name => priceList[name]);
+	return prices.length > 0
+		? prices.reduce((highest, candidate) => candidate.input + candidate.output > highest.input + highest.output ? candidate : highest)
+		: UNPRICED_MODEL_PRICE;
+}
+
+/**
+ * Estimate the cost of a request from its token counts
+ * @param paid Whether the provider charges; unpriced paid models are charged at the highest price
+ * @returns The cost, or 0 if the request is free
+ */
+export function estimateCost(settings: TagFilesAndNotesSettings, model: string, inputTokens: number, outputTokens: number, paid: boolean = false): number {
+	const price = getChargedPrice(settings, model, paid);
+	if (!price) return 0;
+	return (inputTokens * price.input + outputTokens * price.output) / 1000000;
+}
+
+/**
+ * Format a cost for display
+ */
+export function formatCost(cost: number): string {
+	return `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
+}
+
+/**
+ * Local day key (YYYY-MM-DD) for a timestamp
+ */
+export function getDayKey(timestamp: number): string {
+	const date = new Date(timestamp);
+	return `${getMonthKey(timestamp)}-${('0' + date.getDate()).slice(-2)}`;
+}
+
+/**
+ * Local month key (YYYY-MM) for a timestamp
+ */
+export function getMonthKey(timestamp: number): string {
+	const date = new Date(timestamp);
+	return `${date.getFullYear()}-${('0' + (date.getMonth() + 1)).slice(-2)}`;
+}
+
+/**
+ * Persistent record of AI requests, their token usage and estimated cost.
+ * Stored as JSON in the plugin folder next to the tag cache.
+ */
+export class UsageLedger {
+	private entries: UsageEntry[] = [];
+	private loaded = false;
+
+	constructor(
+		private app: App,
+		private path: string
+	) {}
+
+	async load(): Promise<void> {
+		try {
+			if (await this.app.vault.adapter.exists(this.path)) {
+				const data = JSON.parse(await this.app.vault.adapter.read(this.path));
+				this.entries = Array.isArray(data) ? data : [];
+			}
+		} catch (error) {
+			console.error('Error loading usage ledger, starting empty:', error);
+			this.entries = [];
+		}
+		this.loaded = true;
+	}
+
+	async record(entry: UsageEntry): Promise<void> {
+		if (!this.loaded) await this.load();
+
+		this.entries.push(entry);
+		const cutoff = Date.now() - MAX_AGE_DAYS * DAY_MS;
+		this.entries = this.entries.filter(existing => existing.timestamp >= cutoff);
+		await this.save();
+	}
+
+	async clear(): Promise<void> {
+		this.entries = [];
+		this.loaded = true;
+		await this.save();
+	}
+
+	/**
+	 * All recorded entries, oldest first
+	 */
+	getEntries(): UsageEntry[] {
+		return [...this.entries];
+	}
+
+	/**
+	 * Totals for the calendar month containing the given time
+	 */
+	getMonthTotals(timestamp: number = Date.now()): UsageTotals {
+		const month = getMonthKey(timestamp);
+		return sumEntries(this.entries.filter(entry => getMonthKey(entry.timestamp) === month));
+	}
+
+	/**
+	 * Totals grouped by day or month, newest first
+	 */
+	getTotalsBy(period: 'day' | 'month'): Array<{ key: string, totals: UsageTotals }> {
+		const getKey = period === 'day' ? getDayKey : getMonthKey;
+		const groups = new Map<string, UsageEntry[]>();
+		this.entries.forEach(entry => {
+			const key = getKey(entry.timestamp);
+			groups.set(key, [...(groups.get(key) || []), entry]);
+		});
+		return [...groups.entries()]
+			.map(([key, entries]) => ({ key, totals: sumEntries(entries) }))
+			.sort((a, b) => b.key.localeCompare(a.key));
+	}
+
+	private async save(): Promise<void> {
+		try {
+			await this.app.vault.adapter.write(this.path, JSON.stringify(this.entries));
+		} catch (error) {
+			console.error('Error saving usage ledger:', error);
+		}
+	}
+}
+
+/**
+ * Add up the usage of a set of entries
+ */
+function sumEntries(entries: UsageEntry[]): UsageTotals {
+	return entries.reduce((totals, entry) => ({
+		requests: totals.requests + 1,
+		inputTokens: totals.inputTokens + entry.inputTokens,
+		outputTokens: totals.outputTokens + entry.outputTokens,
+		cost: totals.cost + entry.cost
+	}), { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 });
+}
+
+let activeLedger: UsageLedger | null = null;
+
+/**
+ * Create the plugin's usage ledger, stored in the plugin folder
+ * @param app The Obsidian App instance
+ * @param pluginDir The plugin's folder in the vault config directory
+ */
+export function initUsageLedger(app: App, pluginDir: string): UsageLedger {
+	activeLedger = new UsageLedger(app, normalizePath(`${pluginDir}/usage-ledger.json`));
+	return activeLedger;
+}
+
+/**
+ * Get the plugin's usage ledger, if it has been initialised
+ */
+export function getUsageLedger(): UsageLedger | null {
+	return activeLedger;
+}
@@ -0,0 +1,55 @@
+import { App, TFile } from 'obsidian';
+import { buildCorpusStats, CorpusStats } from '../libs/keywordExtractor';
+import { stripFrontmatter } from '../libs/utils';
+
+// Reading every note in a very large vault would stall the first run
+const MAX_CORPUS_FILES = 2000;
+
+let corpusApp: App | null = null;
+let corpusStats: Promise<CorpusStats> | null = null;
+
+/**
+ * Register the vault used as the corpus for keyword extraction.
+ * Statistics are built lazily the first time they are needed.
+ * @param app The Obsidian App instance
+ */
+export function initVaultCorpus(app: App): void {
+	corpusApp = app;
+	corpusStats = null;
+}
+
+/**
+ * Discard the statistics so they are rebuilt on next use
+ */
+export function invalidateVaultCorpus(): void {
+	corpusStats = null;
+}
+
+/**
+ * Get document frequencies across the vault's markdown notes
+ * @returns Corpus statistics, or undefined if no vault is registered
+ */
+export async function getVaultCorpusStats(): Promise<CorpusStats | undefined> {
+	if (!corpusApp) return undefined;
+	if (!corpusStats) {
+		corpusStats = buildVaultCorpus(corpusApp);
+	}
+	return corpusStats;
+}
+
+async function buildVaultCorpus(app: App): Promise<CorpusStats> {
+	const files: TFile[] = app.vault.getMarkdownFiles()
+		.sort((a, b) => b.stat.mtime - a.stat.mtime)
+		.slice(0, MAX_CORPUS_FILES);
+
+	const documents: string[] = [];
+	for (const file of files) {
+		try {
+			documents.push(stripFrontmatter(await app.vault.cachedRead(file)));
+		} catch (error) {
+			console.log(`Skipping ${file.path} in keyword corpus:`, error);
+		}
+	}
+	console.log(`Built keyword corpus from ${documents.length} notes`);
+	return buildCorpusStats(documents);
+}
@@ -0,0 +1,50 @@
+import { App, Notice, getAllTags } from 'obsidian';
+import { TagFilesAndNotesSettings } from './types';
+import { snapTags, TagSnapResult } from '../libs/tagMatcher';
+import { TIMEOUTS } from '../libs/constants';
+
+/**
+ * Collect every tag used in the vault with the number of notes using it
+ * @param app The Obsidian App instance
+ * @returns Tags without the leading # mapped to their note count
+ */
+export function getVaultTags(app: App): Map<string, number> {
+	const tags = new Map<string, number>();
+	app.vault.getMarkdownFiles().forEach(file => {
+		const cache = app.metadataCache.getFileCache(file);
+		if (!cache) return;
+		new Set((getAllTags(cache) || []).map(tag => tag.replace(/^#/, ''))).forEach(tag => {
+			tags.set(tag, (tags.get(tag) || 0) + 1);
+		});
+	});
+	return tags;
+}
+
+/**
+ * Replace suggested tags with existing vault tags they duplicate, and tell
+ * the user which tags were reused and which are new
+ * @param app The Obsidian App instance
+ * @param tags The suggested tags
+ * @param settings Plugin settings
+ * @returns The tags to use, unchanged if snapping is turned off
+ */
+export function snapToVaultTags(app: App, tags: string[], settings: TagFilesAndNotesSettings): TagSnapResult {
+	// A strict vocabulary already decides the exact spelling of every tag
+	const strictVocabulary = settings.vocabularyEnabled && settings.vocabularyStrict;
+	if (!settings.snapToVaultTags || strictVocabulary || tags.length === 0) {
+		return { tags, snapped: [], created: [] };
+	}
+
+	const result = snapTags(tags, getVaultTags(app), {
+		languagePreference: settings.languagePreference,
+		maxDistance: settings.tagSnapMaxDistance
+	});
+	console.log('Tags matched against vault:', result);
+
+	if (result.snapped.length > 0) {
+		const snapped = result.snapped.map(({ suggested, existing }) => `${suggested} → ${existing}`).join(', ');
+		const created = result.created.length > 0 ? `\nNew: ${result.created.join(', ')}` : '';
+		new Notice(`Reused existing tags: ${snapped}${created}`, TIMEOUTS.NOTICE_DURATION);
+	}
+	return result;
+}
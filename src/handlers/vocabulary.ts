@@ -0,0 +1,71 @@
+import { App, Notice, TFile, normalizePath } from 'obsidian';
+import { TagFilesAndNotesSettings } from './types';
+import { parseVocabulary, applyVocabulary, Vocabulary, VocabularyResult, VOCABULARY_TEMPLATE } from '../libs/vocabulary';
+import { TIMEOUTS } from '../libs/constants';
+
+/**
+ * Read the vocabulary file's text
+ * @param app The Obsidian App instance
+ * @param settings Plugin settings
+ * @returns The file content, or null if the file does not exist
+ */
+export async function readVocabularyFile(app: App, settings: TagFilesAndNotesSettings): Promise<string | null> {
+	const file = app.vault.getAbstractFileByPath(normalizePath(settings.vocabularyPath));
+	return file instanceof TFile ? await app.vault.cachedRead(file) : null;
+}
+
+/**
+ * Write the vocabulary file, creating it if needed
+ * @param app The Obsidian App instance
+ * @param settings Plugin settings
+ * @param content The new file content, or the starter template
+ */
+export async function writeVocabularyFile(app: App, settings: TagFilesAndNotesSettings, content: string = VOCABULARY_TEMPLATE): Promise<void> {
+	const path = normalizePath(settings.vocabularyPath);
+	const file = app.vault.getAbstractFileByPath(path);
+	if (file instanceof TFile) {
+		await app.vault.modify(file, content);
+	} else {
+		await app.vault.create(path, content);
+	}
+}
+
+/**
+ * Load the controlled vocabulary if it is turned on
+ * @param app The Obsidian App instance
+ * @param settings Plugin settings
+ * @returns The parsed vocabulary, or null if it is off or the file is missing
+ */
+export async function loadVocabulary(app: App, settings: TagFilesAndNotesSettings): Promise<Vocabulary | null> {
+	if (!settings.vocabularyEnabled) return null;
+
+	const content = await readVocabularyFile(app, settings);
+	if (content === null) {
+		console.log(`Vocabulary file ${settings.vocabularyPath} not found, tags are not restricted`);
+		return null;
+	}
+	return parseVocabulary(content);
+}
+
+/**
+ * Enforce the vocabulary on generated tags and tell the user what changed
+ * @param tags The generated tags
+ * @param vocabulary The parsed vocabulary
+ * @param settings Plugin settings
+ */
+export function enforceVocabulary(tags: string[], vocabulary: Vocabulary, settings: TagFilesAndNotesSettings): VocabularyResult {
+	const result = applyVocabulary(tags, vocabulary, settings.vocabularyStrict, settings.languagePreference);
+	console.log('Tags after applying vocabulary:', result);
+
+	const changes: string[] = [];
+	if (result.mapped.length > 0) {
+		changes.push(`mapped ${result.mapped.map(({ suggested, allowed }) => `${suggested} → ${allowed}`).join(', ')}`);
+	}
+	if (result.dropped.length > 0) {
+		changes.push(`dropped ${result.dropped.join(', ')}`);
+	}
+	if (changes.length > 0) {
+		new Notice(`Tag vocabulary ${changes.join('; ')}`, TIMEOUTS.NOTICE_DURATION);
+	}
+	return result;
+}
@@ -0,0 +1,88 @@
+import { ERROR_MESSAGES } from './constants';
+import { FileToNoteError } from './errorHandling';
+
+/**
+ * Lets the user cancel a running operation. The token is passed down to
+ * each AI request, which stops waiting as soon as it is cancelled.
+ */
+export class CancellationToken {
+    private controller = new AbortController();
+
+    get isCancelled(): boolean {
+        return this.controller.signal.aborted;
+    }
+
+    /** Signal for APIs that support aborting the underlying request */
+    get signal(): AbortSignal {
+        return this.controller.signal;
+    }
+
+    cancel(): void {
+        this.controller.abort();
+    }
+
+    throwIfCancelled(): void {
+        if (this.isCancelled) {
+            throw new FileToNoteError(ERROR_MESSAGES.AI_REQUEST_CANCELLED, 'CANCELLED');
+        }
+    }
+}
+
+/**
+ * Controls for a single AI request
+ */
+export interface RequestControl {
+    cancellation?: CancellationToken;
+    timeoutMs?: number;
+}
+
+/**
+ * Wait for a request, rejecting early if it is cancelled or takes too long.
+ * The request itself keeps running in the background since requestUrl
+ * cannot be aborted, but its result is ignored.
+ * @param promise The pending request
+ * @param provider Provider name for the timeout message
+ * @param control Cancellation token and timeout
+ * @returns The result of the request
+ */
+export function withRequestControl<T>(
+    promise: Promise<T>,
+    provider: string,
+    control: RequestControl = {}
+): Promise<T> {
+    const { cancellation, timeoutMs } = control;
+    cancellation?.throwIfCancelled();
+
+    return new Promise<T>((resolve, reject) => {
+        let timer: number | null = null;
+
+        const onAbort = () => {
+            cleanup();
+            reject(new FileToNoteError(ERROR_MESSAGES.AI_REQUEST_CANCELLED, 'CANCELLED'));
+        };
+
+        const cleanup = () => {
+            if (timer !== null) window.clearTimeout(timer);
+            cancellation?.signal.removeEventListener('abort', onAbort);
+        };
+
+        if (timeoutMs && timeoutMs > 0) {
+            timer = window.setTimeout(() => {
+                cleanup();
+                reject(new FileToNoteError(ERROR_MESSAGES.AI_REQUEST_TIMEOUT(provider, timeoutMs / 1000), 'TIMEOUT'));
+            }, timeoutMs);
+        }
+        cancellation?.signal.addEventListener('abort', onAbort);
+
+        promise.then(
+            result => {
+                cleanup();
+                resolve(result);
+            },
+            error => {
+                cleanup();
+                reject(error);
+            }
+        );
+    });
+}
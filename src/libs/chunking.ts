@@ -0,0 +1,107 @@
+/**
+ * Text chunking for long documents
+ * Splits text into chunks that fit within a token budget, preferring
+ * page breaks and headings, then paragraphs, then words as boundaries
+ */
+
+// Rough average for English text; close enough for budgeting without a tokenizer
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimate the number of tokens in a string
+ * @param text The text to estimate
+ * @returns Approximate token count
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Split text into chunks within a token budget
+ * @param text The text to split
+ * @param tokenBudget Maximum tokens per chunk
+ * @returns Array of chunks, a single chunk if the text already fits
+ */
+export function splitIntoChunks(text: string, tokenBudget: number): string[] {
+    const maxChars = Math.max(1, tokenBudget) * CHARS_PER_TOKEN;
+    const trimmed = text.trim();
+    if (trimmed.length <= maxChars) {
+        return trimmed ? [trimmed] : [];
+    }
+
+    // Page breaks (form feeds from PDF extraction) and markdown headings start new sections
+    const sections = trimmed.split(/\f|\n(?=#{1,6}\s)/);
+
+    const pieces: string[] = [];
+    sections.forEach(section => {
+        if (section.length <= maxChars) {
+            pieces.push(section);
+            return;
+        }
+        section.split(/\n\s*\n/).forEach(paragraph => {
+            if (paragraph.length <= maxChars) {
+                pieces.push(paragraph);
+            } else {
+                pieces.push(...splitByWords(paragraph, maxChars));
+            }
+        });
+    });
+
+    return packPieces(pieces, maxChars);
+}
+
+/**
+ * Split an oversized block of text on word boundaries
+ */
+function splitByWords(text: string, maxChars: number): string[] {
+    const pieces: string[] = [];
+    let current = '';
+
+    text.split(/\s+/).forEach(word => {
+        // A single word longer than the limit has to be cut
+        while (word.length > maxChars) {
+            if (current) {
+                pieces.push(current);
+                current = '';
+            }
+            pieces.push(word.slice(0, maxChars));
+            word = word.slice(maxChars);
+        }
+        if (current && current.length + word.length + 1 > maxChars) {
+            pieces.push(current);
+            current = word;
+        } else {
+            current = current ? `${current} ${word}` : word;
+        }
+    });
+
+    if (current) {
+        pieces.push(current);
+    }
+    return pieces;
+}
+
+/**
+ * Greedily combine pieces into chunks no larger than maxChars
+ */
+function packPieces(pieces: string[], maxChars: number): string[] {
+    const chunks: string[] = [];
+    let current = '';
+
+    pieces
+        .map(piece => piece.trim())
+        .filter(piece => piece.length > 0)
+        .forEach(piece => {
+            if (current && current.length + piece.length + 2 > maxChars) {
+                chunks.push(current);
+                current = piece;
+            } else {
+                current = current ? `${current}\n\n${piece}` : piece;
+            }
+        });
+
+    if (current) {
+        chunks.push(current);
+    }
+    return chunks;
+}
@@ -14,6 +14,12 @@ export const ERROR_MESSAGES = {
     AI_REQUEST_FAILED: (provider: string) => `Failed to get tags from ${provider}. Please check your configuration.`,
     AI_RESPONSE_INVALID: 'Invalid response from AI provider',
     AI_RESPONSE_EMPTY: 'No tags were generated',
+    AI_IMAGES_UNSUPPORTED: (provider: string) => `${provider} does not support tagging images. Choose Ollama, OpenAI or an OpenAI-compatible endpoint with a vision model.`,
+    AI_COMPLETION_UNSUPPORTED: (provider: string) => `${provider} cannot extract fields or write summaries. Choose an AI model provider.`,
+    AI_REQUEST_CANCELLED: 'Tag generation cancelled',
+    AI_REQUEST_TIMEOUT: (provider: string, seconds: number) => `${provider} did not respond within ${seconds} seconds`,
+    AI_BUDGET_EXCEEDED: (provider: string, budget: string) => `Monthly AI budget of ${budget} reached, ${provider} was not called`,
+    AI_MODEL_UNPRICED: (model: string) => `No price is set for ${model}, so its cost is counted at the highest listed price. Add it to the model prices in settings.`,
     AI_RESPONSE_TOO_LONG: 'Generated tags exceed maximum length',
     AI_RESPONSE_TOO_MANY_WORDS: 'Some tags contain too many words'
 };
@@ -41,6 +47,14 @@ export const DEFAULT_VALUES = {
     DEFAULT_LANGUAGE: 'uk' as const
 };
 
+export const IMAGE_MIME_TYPES: Record<string, string> = {
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    gif: 'image/gif',
+    webp: 'image/webp'
+};
+
 export const FILE_PATTERNS = {
     MARKDOWN: /\.md$/i,
     FRONTMATTER_START: '---\n',
@@ -0,0 +1,45 @@
+/**
+ * Line diff
+ * Compares two short texts line by line using the longest common subsequence
+ */
+
+export interface DiffLine {
+    type: 'same' | 'added' | 'removed';
+    line: string;
+}
+
+/**
+ * Diff two lists of lines
+ * @param before The original lines
+ * @param after The changed lines
+ * @returns Every line in order, marked as unchanged, added or removed
+ */
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+    // common[i][j] is the LCS length of before[i..] and after[j..]
+    const common: number[][] = Array.from({ length: before.length + 1 }, () => new Array(after.length + 1).fill(0));
+    for (let i = before.length - 1; i >= 0; i--) {
+        for (let j = after.length - 1; j >= 0; j--) {
+            common[i][j] = before[i] === after[j]
+                ? common[i + 1][j + 1] + 1
+                : Math.max(common[i + 1][j], common[i][j + 1]);
+        }
+    }
+
+    const result: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < before.length && j < after.length) {
+        if (before[i] === after[j]) {
+            result.push({ type: 'same', line: before[i] });
+            i++;
+            j++;
+        } else if (common[i + 1][j] >= common[i][j + 1]) {
+            result.push({ type: 'removed', line: before[i++] });
+        } else {
+            result.push({ type: 'added', line: after[j++] });
+        }
+    }
+    while (i < before.length) result.push({ type: 'removed', line: before[i++] });
+    while (j < after.length) result.push({ type: 'added', line: after[j++] });
+    return result;
+}
@@ -26,12 +26,25 @@ export function handleOperationError(
     }
 }
 
+export function isCancellationError(error: unknown): boolean {
+    return error instanceof FileToNoteError && error.code === 'CANCELLED';
+}
+
 export function handleAIError(
     provider: string,
     error: Error,
     app: App
 ): void {
-    const errorMessage = ERROR_MESSAGES.AI_REQUEST_FAILED(provider);
+    if (isCancellationError(error)) {
+        console.log(`[File-to-Note] AI request to ${provider} cancelled`);
+        new Notice(error.message, TIMEOUTS.NOTICE_DURATION);
+        return;
+    }
+
+    // Timeouts and budget limits already say what went wrong, other errors get the generic hint
+    const errorMessage = error instanceof FileToNoteError && (error.code === 'TIMEOUT' || error.code === 'BUDGET_EXCEEDED')
+        ? error.message
+        : ERROR_MESSAGES.AI_REQUEST_FAILED(provider);
     console.error(`[File-to-Note] AI Error (${provider}): ${error.message}`);
     new Notice(errorMessage, TIMEOUTS.NOTICE_DURATION);
 }
@@ -0,0 +1,218 @@
+/**
+ * Field extraction
+ * Turns a user-defined field schema into an extraction prompt, and checks
+ * and converts the values the AI returns to the field types
+ */
+
+import { FieldDefinition, LanguagePreference } from '../handlers/types';
+
+export const FIELD_SYSTEM_PROMPT = 'You are a helpful assistant that extracts facts from documents. Reply only with JSON, no other text.';
+
+// Placeholders models use for a missing value despite being asked for null
+const EMPTY_VALUES = ['', 'null', 'none', 'unknown', 'n/a', 'na', '-'];
+
+/**
+ * Check if a field can be written as a frontmatter property
+ */
+export function isValidFieldName(name: string): boolean {
+    return /^[^\s:#'"\[\]{},][^:#]*$/.test(name.trim());
+}
+
+/**
+ * Build the prompt that asks for the fields as a JSON object
+ * @param fields The field schema
+ */
+export function buildFieldPrompt(fields: FieldDefinition[]): string {
+    const lines = fields.map(field => {
+        const description = field.description.trim() ? `: ${field.description.trim()}` : '';
+        return `- ${field.name} (${describeFieldType(field)})${description}`;
+    });
+    return [
+        'Extract the following fields from the text.',
+        ...lines,
+        `Reply ONLY with a JSON object with the keys ${fields.map(field => `"${field.name}"`).join(', ')}. Use null for a field the text does not state; do not guess.`
+    ].join('\n');
+}
+
+/**
+ * Describe a field's type for the prompt
+ */
+function describeFieldType(field: FieldDefinition): string {
+    switch (field.type) {
+        case 'number':
+            return 'number without units or currency symbols';
+        case 'date':
+            return 'date as YYYY-MM-DD';
+        case 'enum':
+            return `one of: ${field.values.join(', ')}`;
+        case 'list':
+            return 'list of short text values';
+        case 'boolean':
+            return 'true or false';
+        default:
+            return 'text';
+    }
+}
+
+/**
+ * Parse the AI's JSON reply and convert each value to its field type.
+ * Values that are missing or cannot be converted are left out.
+ * @param responseText The raw reply
+ * @param fields The field schema
+ * @param languagePreference Decides whether 03/04/2024 is 3 April (UK) or 4 March (US)
+ * @returns Field names mapped to their values
+ * @throws SyntaxError if the reply is not JSON
+ */
+export function parseFieldResponse(
+    responseText: string,
+    fields: FieldDefinition[],
+    languagePreference: LanguagePreference
+): Record<string, unknown> {
+    // Some models wrap JSON in a markdown code fence even when asked not to
+    const json = responseText.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    const data = JSON.parse(json);
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        return {};
+    }
+
+    const values: Record<string, unknown> = {};
+    fields.forEach(field => {
+        const value = coerceFieldValue(data[field.name], field, languagePreference);
+        if (value !== undefined) {
+            values[field.name] = value;
+        }
+    });
+    return values;
+}
+
+/**
+ * Convert a value to a field's type
+ * @returns The converted value, or undefined if it is empty or invalid
+ */
+export function coerceFieldValue(value: unknown, field: FieldDefinition, languagePreference: LanguagePreference): unknown {
+    if (value === null || value === undefined) return undefined;
+    if (typeof value === 'string' && EMPTY_VALUES.includes(value.trim().toLowerCase())) return undefined;
+
+    switch (field.type) {
+        case 'number':
+            return coerceNumber(value);
+        case 'date':
+            return coerceDate(value, languagePreference);
+        case 'enum':
+            return coerceEnum(value, field.values);
+        case 'list':
+            return coerceList(value);
+        case 'boolean':
+            return coerceBoolean(value);
+        default:
+            return coerceText(value);
+    }
+}
+
+/**
+ * Read a number, ignoring units, currency symbols and thousands separators
+ */
+function coerceNumber(value: unknown): number | undefined {
+    if (typeof value === 'number') {
+        return isFinite(value) ? value : undefined;
+    }
+    // Accept amounts such as "$1,234.50" or "12 kg"
+    const match = String(value).replace(/,(?=\d{3}\b)/g, '').match(/-?\d+(\.\d+)?/);
+    return match ? parseFloat(match[0]) : undefined;
+}
+
+/**
+ * Read a date in ISO, day/month/year or written form
+ */
+function coerceDate(value: unknown, languagePreference: LanguagePreference): string | undefined {
+    const text = String(value).trim();
+
+    const iso = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+    if (iso) {
+        return formatDateParts(+iso[1], +iso[2], +iso[3]);
+    }
+
+    const numeric = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+    if (numeric) {
+        const [first, second] = [+numeric[1], +numeric[2]];
+        return languagePreference === 'us'
+            ? formatDateParts(+numeric[3], first, second)
+            : formatDateParts(+numeric[3], second, first);
+    }
+
+    // Written dates such as "5 March 2024" or "March 5, 2024"
+    const parsed = new Date(text);
+    if (isNaN(parsed.getTime())) return undefined;
+    return formatDateParts(parsed.getFullYear(), parsed.getMonth() + 1, parsed.getDate());
+}
+
+/**
+ * Format a date as YYYY-MM-DD, or undefined if the day does not exist
+ */
+function formatDateParts(year: number, month: number, day: number): string | undefined {
+    const date = new Date(year, month - 1, day);
+    if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+        return undefined;
+    }
+    return `${year}-${('0' + month).slice(-2)}-${('0' + day).slice(-2)}`;
+}
+
+/**
+ * Match an allowed value, ignoring case, spaces, hyphens and underscores
+ */
+function coerceEnum(value: unknown, allowed: string[]): string | undefined {
+    const toKey = (text: string) => text.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+    const key = toKey(String(value));
+    return allowed.find(option => toKey(option) === key);
+}
+
+/**
+ * Read a list, splitting text on commas or semicolons
+ */
+function coerceList(value: unknown): string[] | undefined {
+    const items = Array.isArray(value) ? value : String(value).split(/[,;]/);
+    const list = items
+        .filter(item => item !== null && item !== undefined)
+        .map(item => String(item).trim())
+        .filter(item => item.length > 0 && !EMPTY_VALUES.includes(item.toLowerCase()));
+    return list.length > 0 ? list : undefined;
+}
+
+/**
+ * Read a yes or no answer
+ */
+function coerceBoolean(value: unknown): boolean | undefined {
+    if (typeof value === 'boolean') return value;
+    const text = String(value).trim().toLowerCase();
+    if (['true', 'yes', 'y', '1'].includes(text)) return true;
+    if (['false', 'no', 'n', '0'].includes(text)) return false;
+    return undefined;
+}
+
+/**
+ * Read text, joining a list the model returned instead
+ */
+function coerceText(value: unknown): string | undefined {
+    const text = Array.isArray(value) ? value.join(', ') : String(value);
+    return text.trim() || undefined;
+}
+
+/**
+ * Combine values extracted from several chunks of one document. The
+ * first value found for a field wins, and lists are merged.
+ */
+export function mergeFieldValues(results: Array<Record<string, unknown>>): Record<string, unknown> {
+    const merged: Record<string, unknown> = {};
+    results.forEach(result => {
+        Object.keys(result).forEach(name => {
+            const value = result[name];
+            const existing = merged[name];
+            if (existing === undefined) {
+                merged[name] = value;
+            } else if (Array.isArray(existing) && Array.isArray(value)) {
+                merged[name] = [...existing, ...value.filter(item => !existing.includes(item))];
+            }
+        });
+    });
+    return merged;
+}
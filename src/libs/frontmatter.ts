@@ -0,0 +1,378 @@
+/**
+ * Frontmatter editing
+ * Properties are read with a YAML parser and written back with a YAML
+ * serializer, one top-level key at a time, so other keys keep their order,
+ * formatting and comments exactly as the user wrote them
+ */
+
+import { parseYaml, stringifyYaml } from 'obsidian';
+import { FileToNoteError } from './errorHandling';
+import { TagListFormat, TagQuoting } from '../handlers/types';
+
+/**
+ * A note split around its frontmatter
+ */
+export interface FrontmatterParts {
+    /** Optional byte order mark and the opening --- line */
+    opening: string;
+    /** The YAML lines between the delimiters, without line endings */
+    lines: string[];
+    /** The closing --- line including its line ending, if any */
+    closing: string;
+    /** Everything after the frontmatter */
+    body: string;
+    lineEnding: string;
+}
+
+/**
+ * Where and how a list of tags is written
+ */
+export interface TagListStyle {
+    /** The property holding the tags; `tags` also matches the `tag` alias in any case */
+    property: string;
+    format: TagListFormat;
+    quoting: TagQuoting;
+}
+
+export const DEFAULT_TAG_LIST_STYLE: TagListStyle = { property: 'tags', format: 'block', quoting: 'auto' };
+
+/**
+ * The lines belonging to one top-level key, or comments and blank lines
+ * between keys when key is null
+ */
+interface YamlBlock {
+    key: string | null;
+    lines: string[];
+}
+
+// Obsidian reads tags from either key, in any case
+const TAG_KEY_REGEX = /^tags?$/i;
+
+/**
+ * Split a note into its frontmatter and body. Handles CRLF line endings
+ * and a leading byte order mark.
+ * @param content The note content
+ * @returns The parts, or null if the note has no frontmatter
+ */
+export function splitFrontmatter(content: string): FrontmatterParts | null {
+    const opening = content.match(/^\uFEFF?---[ \t]*(\r?\n)/);
+    if (!opening) return null;
+
+    const lines: string[] = [];
+    let position = opening[0].length;
+    while (position < content.length) {
+        const lineEnd = content.indexOf('\n', position);
+        const next = lineEnd === -1 ? content.length : lineEnd + 1;
+        const line = content.substring(position, lineEnd === -1 ? content.length : lineEnd).replace(/\r$/, '');
+
+        if (/^---[ \t]*$/.test(line)) {
+            return {
+                opening: opening[0],
+                lines,
+                closing: content.substring(position, next),
+                body: content.substring(next),
+                lineEnding: opening[1]
+            };
+        }
+        lines.push(line);
+        position = next;
+    }
+    return null;
+}
+
+/**
+ * Check if a note starts with frontmatter
+ */
+export function hasFrontmatter(content: string): boolean {
+    return splitFrontmatter(content) !== null;
+}
+
+/**
+ * Read a top-level frontmatter property
+ * @param content The note content
+ * @param key The property name
+ * @returns The parsed value, or undefined if the property is not set
+ * @throws FileToNoteError if the property's YAML cannot be parsed
+ */
+export function getFrontmatterValue(content: string, key: string): unknown {
+    const parts = splitFrontmatter(content);
+    if (!parts) return undefined;
+
+    const block = parseBlocks(parts.lines).find(candidate => candidate.key === key);
+    return block ? parseBlock(block, parts.lines) : undefined;
+}
+
+/**
+ * Set a top-level frontmatter property, adding frontmatter if the note has none.
+ * An existing property is replaced in place; a new one is added at the end.
+ * @param content The note content
+ * @param key The property name
+ * @param value The value to serialize
+ * @returns The updated content
+ */
+export function setFrontmatterValue(content: string, key: string, value: unknown): string {
+    return updateBlocks(content, blocks => {
+        const index = blocks.findIndex(block => block.key === key);
+        const replacement = serializeBlock(key, value);
+        if (index === -1) {
+            insertBlock(blocks, replacement);
+        } else {
+            blocks[index] = replacement;
+        }
+        return blocks;
+    });
+}
+
+/**
+ * Remove a top-level frontmatter property
+ * @param content The note content
+ * @param key The property name
+ * @returns The updated content, unchanged if the property was not set
+ */
+export function removeFrontmatterValue(content: string, key: string): string {
+    if (getFrontmatterValue(content, key) === undefined) {
+        return content;
+    }
+    return updateBlocks(content, blocks => blocks.filter(block => block.key !== key));
+}
+
+/**
+ * Read the tags from a note's frontmatter, accepting a list or a comma or
+ * space separated string, with or without leading #
+ * @param content The note content
+ * @param property The property holding the tags; `tags` also reads the `tag` alias
+ * @returns The tags in the order they appear
+ * @throws FileToNoteError if the tags YAML cannot be parsed
+ */
+export function getFrontmatterTags(content: string, property: string = 'tags'): string[] {
+    const parts = splitFrontmatter(content);
+    if (!parts) return [];
+
+    const tags: string[] = [];
+    parseBlocks(parts.lines)
+        .filter(block => isTagKey(block.key, property))
+        .forEach(block => tags.push(...toTagList(parseBlock(block, parts.lines))));
+    return tags;
+}
+
+/**
+ * Write tags to a note's frontmatter. For the `tags` property the first
+ * tag key found is reused so `tag:` or `Tags:` stay as the user wrote them,
+ * and any other tag keys are removed so the note has a single list.
+ * @param content The note content
+ * @param tags The complete list of tags to write
+ * @param style The property, list format and quoting to write
+ * @returns The updated content
+ */
+export function setFrontmatterTags(content: string, tags: string[], style: TagListStyle = DEFAULT_TAG_LIST_STYLE): string {
+    return updateBlocks(content, blocks => {
+        const tagBlocks = blocks.filter(block => isTagKey(block.key, style.property));
+        if (tagBlocks.length === 0) {
+            insertBlock(blocks, serializeTagBlock(style.property, tags, style));
+            return blocks;
+        }
+
+        const [first, ...duplicates] = tagBlocks;
+        blocks[blocks.indexOf(first)] = serializeTagBlock(first.key as string, tags, style);
+        return blocks.filter(block => !duplicates.includes(block));
+    });
+}
+
+/**
+ * Apply a change to the frontmatter blocks and rebuild the note,
+ * keeping the note's line endings
+ */
+function updateBlocks(content: string, update: (blocks: YamlBlock[]) => YamlBlock[]): string {
+    const parts = splitFrontmatter(content);
+    if (!parts) {
+        const lineEnding = content.indexOf('\r\n') !== -1 ? '\r\n' : '\n';
+        const lines = flattenBlocks(update([]));
+        return ['---', ...lines, '---', ''].join(lineEnding) + (content ? lineEnding + content : '');
+    }
+
+    const lines = flattenBlocks(update(parseBlocks(parts.lines)));
+    // Replacing a key can drop an anchor that another key still refers to
+    if (parsesAsYaml(parts.lines) && !parsesAsYaml(lines)) {
+        throw new FileToNoteError('The frontmatter could not be updated without breaking it, for example because another property refers to an anchor on the one being changed', 'INVALID_FRONTMATTER');
+    }
+    return parts.opening
+        + lines.map(line => line + parts.lineEnding).join('')
+        + parts.closing
+        + parts.body;
+}
+
+/**
+ * Group frontmatter lines by top-level key. Indented lines, list items and
+ * flow continuations belong to the key above them; comments at the start
+ * of a line stand on their own.
+ */
+function parseBlocks(lines: string[]): YamlBlock[] {
+    const blocks: YamlBlock[] = [];
+    let current: YamlBlock | null = null;
+
+    lines.forEach(line => {
+        const key = getTopLevelKey(line);
+        if (key !== null) {
+            current = { key, lines: [line] };
+            blocks.push(current);
+        } else if (line.startsWith('#') || !current || current.key === null) {
+            if (!current || current.key !== null) {
+                current = { key: null, lines: [] };
+                blocks.push(current);
+            }
+            current.lines.push(line);
+        } else {
+            current.lines.push(line);
+        }
+    });
+
+    // Blank lines after a value separate keys rather than belong to them
+    const result: YamlBlock[] = [];
+    blocks.forEach(block => {
+        let end = block.lines.length;
+        while (block.key !== null && end > 1 && block.lines[end - 1].trim() === '') {
+            end--;
+        }
+        result.push({ key: block.key, lines: block.lines.slice(0, end) });
+        if (end < block.lines.length) {
+            result.push({ key: null, lines: block.lines.slice(end) });
+        }
+    });
+    return result;
+}
+
+/**
+ * Get the key defined on a line, if the line starts a top-level property
+ */
+function getTopLevelKey(line: string): string | null {
+    const match = line.match(/^(?:"((?:[^"\\]|\\.)*)"|'((?:[^']|'')*)'|([^\s#'"\-?:,\[\]{}][^:]*?|-[^\s:][^:]*?))[ \t]*:(?:[ \t]|$)/);
+    if (!match) return null;
+    if (match[1] !== undefined) return match[1].replace(/\\(.)/g, '$1');
+    if (match[2] !== undefined) return match[2].replace(/''/g, "'");
+    return match[3];
+}
+
+/**
+ * Parse the value of a single key's block. A block that cannot be parsed
+ * on its own, such as one using an anchor defined by another key, is read
+ * from the whole frontmatter instead.
+ * @param block The key's block
+ * @param lines All frontmatter lines
+ */
+function parseBlock(block: YamlBlock, lines: string[]): unknown {
+    try {
+        const data = parseYaml(block.lines.join('\n'));
+        return data && typeof data === 'object' ? data[block.key as string] : undefined;
+    } catch (blockError) {
+        try {
+            const data = parseYaml(lines.join('\n'));
+            return data && typeof data === 'object' ? data[block.key as string] : undefined;
+        } catch (error) {
+            console.error(`Could not parse frontmatter property "${block.key}":`, blockError);
+            throw new FileToNoteError(`The "${block.key}" property in the frontmatter is not valid YAML`, 'INVALID_FRONTMATTER');
+        }
+    }
+}
+
+/**
+ * Check whether frontmatter lines are valid YAML
+ */
+function parsesAsYaml(lines: string[]): boolean {
+    try {
+        parseYaml(lines.join('\n'));
+        return true;
+    } catch (error) {
+        return false;
+    }
+}
+
+/**
+ * Serialize a single property as YAML
+ */
+function serializeBlock(key: string, value: unknown): YamlBlock {
+    const yaml = stringifyYaml({ [key]: value }).replace(/\s+$/, '');
+    return { key, lines: yaml.split('\n') };
+}
+
+/**
+ * Check if a key holds the tags for a property
+ */
+function isTagKey(key: string | null, property: string): boolean {
+    if (key === null) return false;
+    return TAG_KEY_REGEX.test(property) ? TAG_KEY_REGEX.test(key) : key === property;
+}
+
+/**
+ * Serialize a tag list in the chosen format. Block lists with automatic
+ * quoting are left to the YAML serializer.
+ */
+function serializeTagBlock(key: string, tags: string[], style: TagListStyle): YamlBlock {
+    if (style.format === 'string') {
+        const value = tags.join(', ');
+        return style.quoting === 'auto'
+            ? serializeBlock(key, value)
+            : { key, lines: [`${serializeKey(key)} ${quoteScalar(value, style.quoting, false)}`] };
+    }
+    if (style.format === 'block' && (style.quoting === 'auto' || tags.length === 0)) {
+        return serializeBlock(key, tags);
+    }
+
+    const items = tags.map(tag => quoteScalar(tag, style.quoting, style.format === 'flow'));
+    return style.format === 'flow'
+        ? { key, lines: [`${serializeKey(key)} [${items.join(', ')}]`] }
+        : { key, lines: [`${serializeKey(key)}`, ...items.map(item => `  - ${item}`)] };
+}
+
+/**
+ * Serialize a key with its colon, quoted if YAML needs it
+ */
+function serializeKey(key: string): string {
+    return serializeBlock(key, null).lines[0].replace(/\s*null$/, '');
+}
+
+/**
+ * Quote a scalar value. Automatic quoting only quotes values YAML would
+ * misread, such as numbers or, inside a flow list, commas and brackets.
+ */
+function quoteScalar(value: string, quoting: TagQuoting, inFlow: boolean): string {
+    if (quoting === 'single') {
+        return `'${value.replace(/'/g, "''")}'`;
+    }
+    const plain = stringifyYaml(value).replace(/\s+$/, '');
+    if (quoting === 'double' || (inFlow && /[,\[\]{}]/.test(value))) {
+        return JSON.stringify(value);
+    }
+    return plain;
+}
+
+/**
+ * Add a block after the last property, before any trailing blank lines
+ */
+function insertBlock(blocks: YamlBlock[], block: YamlBlock): void {
+    let index = blocks.length;
+    while (index > 0 && blocks[index - 1].key === null && blocks[index - 1].lines.every(line => line.trim() === '')) {
+        index--;
+    }
+    blocks.splice(index, 0, block);
+}
+
+/**
+ * Join blocks back into lines
+ */
+function flattenBlocks(blocks: YamlBlock[]): string[] {
+    const lines: string[] = [];
+    blocks.forEach(block => lines.push(...block.lines));
+    return lines;
+}
+
+/**
+ * Convert a parsed tags value into a list of tag names
+ */
+function toTagList(value: unknown): string[] {
+    if (value === null || value === undefined) return [];
+    const items = Array.isArray(value) ? value : String(value).split(/[,\s]+/);
+    return items
+        .filter(item => item !== null && item !== undefined)
+        .map(item => String(item).trim().replace(/^#/, ''))
+        .filter(tag => tag.length > 0 && tag !== '--');
+}
@@ -0,0 +1,91 @@
+/**
+ * Inline tags
+ * Reads and writes a single line of #tags in the note body. The line ends
+ * with a hidden comment so the plugin can find and rewrite its own line
+ * without touching tags the user typed elsewhere.
+ */
+
+import { splitFrontmatter } from './frontmatter';
+
+export type InlineTagPosition = 'top' | 'bottom';
+
+// Obsidian hides %% comments %% in reading view
+export const INLINE_TAG_MARKER = '%% file-to-note tags %%';
+
+const INLINE_LINE_REGEX = /^.*%% file-to-note tags %%[ \t]*$/;
+
+/**
+ * Build the inline tag line
+ * @param tags Formatted tags without #
+ */
+export function formatInlineTagLine(tags: string[]): string {
+    return `${tags.map(tag => `#${tag}`).join(' ')} ${INLINE_TAG_MARKER}`;
+}
+
+/**
+ * Read the tags from the plugin's inline tag line
+ * @param content The note content
+ * @returns The tags without #, empty if the note has no inline tag line
+ */
+export function getInlineTags(content: string): string[] {
+    const line = getInlineTagLine(content);
+    if (!line) return [];
+
+    const tags: string[] = [];
+    line.replace(INLINE_TAG_MARKER, '').split(/\s+/).forEach(token => {
+        const tag = token.replace(/^#/, '');
+        if (token.startsWith('#') && tag && !tags.includes(tag)) {
+            tags.push(tag);
+        }
+    });
+    return tags;
+}
+
+/**
+ * Get the plugin's inline tag line, if the note has one
+ */
+export function getInlineTagLine(content: string): string | null {
+    return content.split(/\r?\n/).find(candidate => INLINE_LINE_REGEX.test(candidate)) || null;
+}
+
+/**
+ * Replace the plugin's inline tag line, or add one at the top or bottom of
+ * the body. Any previous line is removed wherever it was, so switching
+ * position moves it rather than duplicating it.
+ * @param content The note content
+ * @param tags Formatted tags without #; an empty list removes the line
+ * @param position Where to put a new line
+ * @returns The updated content
+ */
+export function setInlineTags(content: string, tags: string[], position: InlineTagPosition): string {
+    const parts = splitFrontmatter(content);
+    const lineEnding = parts ? parts.lineEnding : (content.indexOf('\r\n') !== -1 ? '\r\n' : '\n');
+    const head = parts ? content.substring(0, content.length - parts.body.length) : '';
+    const body = parts ? parts.body : content;
+
+    const bodyLines = body.split(/\r?\n/);
+    const index = bodyLines.findIndex(line => INLINE_LINE_REGEX.test(line));
+    if (index !== -1) {
+        // Take one blank line that separated the tag line from the text with it
+        if (index + 1 < bodyLines.length && bodyLines[index + 1].trim() === '') {
+            bodyLines.splice(index, 2);
+        } else if (index > 0 && bodyLines[index - 1].trim() === '') {
+            bodyLines.splice(index - 1, 2);
+        } else {
+            bodyLines.splice(index, 1);
+        }
+    }
+
+    let text = bodyLines.join(lineEnding);
+    if (tags.length > 0) {
+        const line = formatInlineTagLine(tags);
+        if (position === 'top') {
+            const leading = text.match(/^(\r?\n)*/)?.[0] || '';
+            text = leading + line + lineEnding + lineEnding + text.substring(leading.length);
+        } else {
+            const trimmed = text.replace(/(\r?\n)+$/, '');
+            text = (trimmed ? trimmed + lineEnding + lineEnding : '') + line + lineEnding;
+        }
+    }
+    return head + text;
+}
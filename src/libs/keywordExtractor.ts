@@ -0,0 +1,166 @@
+/**
+ * Offline keyword extraction
+ * Scores candidate keyphrases with RAKE (word degree / frequency) and weights
+ * them by inverse document frequency against a corpus when one is available
+ */
+
+import { LanguagePreference } from '../handlers/types';
+import { getStopwords } from './stopwords';
+import { normalizeSpelling } from './spellingNormalizer';
+
+/**
+ * Document frequencies of words across a corpus of notes
+ */
+export interface CorpusStats {
+    documentCount: number;
+    documentFrequency: Map<string, number>;
+}
+
+export interface KeywordOptions {
+    maxTags: number;
+    maxWordsPerTag: number;
+    languagePreference: LanguagePreference;
+    corpus?: CorpusStats;
+}
+
+const MIN_WORD_LENGTH = 3;
+
+/**
+ * Split text into lowercase word tokens
+ * @param text The text to tokenize
+ * @returns Array of words, keeping letters, digits, apostrophes and inner hyphens
+ */
+export function tokenize(text: string): string[] {
+    return text
+        .toLowerCase()
+        .split(/[^a-z0-9À-ɏ'-]+/)
+        .map(word => word.replace(/^['-]+|['-]+$/g, ''))
+        .filter(word => word.length > 0);
+}
+
+/**
+ * Check whether a word can be part of a keyphrase
+ */
+function isContentWord(word: string, stopwords: Set<string>): boolean {
+    return word.length >= MIN_WORD_LENGTH
+        && !stopwords.has(word)
+        && !/^\d+$/.test(word);
+}
+
+/**
+ * Split text into candidate phrases: runs of content words broken by
+ * stopwords and punctuation, capped at maxWords
+ */
+function extractCandidatePhrases(text: string, stopwords: Set<string>, maxWords: number): string[][] {
+    const phrases: string[][] = [];
+
+    // Sentence and clause punctuation always ends a phrase
+    text.split(/[.,;:!?()[\]{}"\n\r\t–—]+/).forEach(fragment => {
+        let current: string[] = [];
+        tokenize(fragment).forEach(word => {
+            if (isContentWord(word, stopwords)) {
+                current.push(word);
+            } else if (current.length > 0) {
+                phrases.push(current);
+                current = [];
+            }
+        });
+        if (current.length > 0) {
+            phrases.push(current);
+        }
+    });
+
+    // Long runs are split into overlapping windows no longer than maxWords
+    const limited: string[][] = [];
+    phrases.forEach(phrase => {
+        if (phrase.length <= maxWords) {
+            limited.push(phrase);
+            return;
+        }
+        for (let i = 0; i + maxWords <= phrase.length; i++) {
+            limited.push(phrase.slice(i, i + maxWords));
+        }
+    });
+    return limited;
+}
+
+/**
+ * Inverse document frequency of a word, 1 when there is no corpus
+ */
+function inverseDocumentFrequency(word: string, corpus?: CorpusStats): number {
+    if (!corpus || corpus.documentCount === 0) return 1;
+    const frequency = corpus.documentFrequency.get(word) || 0;
+    return Math.log((corpus.documentCount + 1) / (frequency + 1)) + 1;
+}
+
+/**
+ * Extract keyword tags from text without an AI model
+ * @param text The text to extract keywords from
+ * @param options Tag limits, language and optional corpus statistics
+ * @returns Up to maxTags keyphrases, words joined with hyphens, best first
+ */
+export function extractKeywords(text: string, options: KeywordOptions): string[] {
+    const stopwords = getStopwords(options.languagePreference);
+    const maxWords = Math.max(1, options.maxWordsPerTag);
+    const phrases = extractCandidatePhrases(text, stopwords, maxWords);
+
+    // RAKE word scores: words that co-occur in longer phrases score higher
+    const frequency = new Map<string, number>();
+    const degree = new Map<string, number>();
+    phrases.forEach(phrase => {
+        phrase.forEach(word => {
+            frequency.set(word, (frequency.get(word) || 0) + 1);
+            degree.set(word, (degree.get(word) || 0) + phrase.length);
+        });
+    });
+
+    const wordScore = (word: string) =>
+        ((degree.get(word) || 0) / (frequency.get(word) || 1)) * inverseDocumentFrequency(word, options.corpus);
+
+    // Count each distinct phrase, merging UK/US spelling variants
+    const candidates = new Map<string, { words: string[], count: number }>();
+    phrases.forEach(phrase => {
+        const key = phrase.map(word => normalizeSpelling(word, options.languagePreference).toLowerCase()).join('-');
+        const existing = candidates.get(key);
+        if (existing) {
+            existing.count++;
+        } else {
+            candidates.set(key, { words: phrase, count: 1 });
+        }
+    });
+
+    // Phrase score is the sum of its word scores, boosted by how often it appears
+    const ranked = [...candidates.entries()]
+        .map(([key, candidate]) => {
+            const score = candidate.words.reduce((total, word) => total + wordScore(word), 0)
+                * (1 + Math.log(candidate.count));
+            return [key, { words: candidate.words, score }] as [string, { words: string[], score: number }];
+        })
+        .sort((a, b) => b[1].score - a[1].score || a[0].localeCompare(b[0]));
+
+    // Skip phrases that only repeat words already covered by a better phrase
+    const tags: string[] = [];
+    const usedWords = new Set<string>();
+    for (const [key, candidate] of ranked) {
+        if (tags.length >= options.maxTags) break;
+        if (candidate.words.every(word => usedWords.has(word))) continue;
+        tags.push(key);
+        candidate.words.forEach(word => usedWords.add(word));
+    }
+    return tags;
+}
+
+/**
+ * Build corpus statistics from a set of documents
+ * @param documents The text of each document
+ * @returns Document count and per-word document frequency
+ */
+export function buildCorpusStats(documents: string[]): CorpusStats {
+    const documentFrequency = new Map<string, number>();
+    documents.forEach(document => {
+        new Set(tokenize(document)).forEach(word => {
+            documentFrequency.set(word, (documentFrequency.get(word) || 0) + 1);
+        });
+    });
+    return { documentCount: documents.length, documentFrequency };
+}
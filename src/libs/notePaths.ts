@@ -0,0 +1,79 @@
+/**
+ * Note paths
+ * Works out which folder the note for a file goes in and what it is called
+ */
+
+import { TagFilesAndNotesSettings } from '../handlers/types';
+import { replaceTemplateVariables } from './utils';
+
+// Characters Obsidian does not allow in file names, or that break links to them
+const INVALID_NAME_CHARS = /[\\/:*?"<>|#^\[\]]/g;
+
+/**
+ * The file a note is created for
+ */
+export interface NoteSource {
+    basename: string;
+    extension: string;
+    /** The path of the file's folder, `/` for the vault root */
+    folder: string;
+    /** When the file was created, in milliseconds */
+    ctime: number;
+}
+
+/**
+ * Join folder and file names into a vault path, ignoring empty parts and
+ * stray slashes
+ * @returns The path, or an empty string for the vault root
+ */
+export function joinPath(...parts: string[]): string {
+    return parts
+        .map(part => part.trim().replace(/^\/+|\/+$/g, ''))
+        .filter(part => part.length > 0)
+        .join('/');
+}
+
+/**
+ * Get the folder for a file's note: the file's own folder, the notes
+ * folder, or the notes folder with the file's folders recreated inside it
+ * @param folder The path of the file's folder
+ * @param settings Plugin settings
+ * @returns The folder path, or an empty string for the vault root
+ */
+export function getNoteFolder(folder: string, settings: TagFilesAndNotesSettings): string {
+    switch (settings.notesLocation) {
+        case 'fixed':
+            return joinPath(settings.notesDirectory);
+        case 'mirror':
+            return joinPath(settings.notesDirectory, folder);
+        default:
+            return joinPath(folder);
+    }
+}
+
+/**
+ * Get the note's file name, without extension, from the name pattern.
+ * The pattern can use {{basename}}, {{extension}}, {{folder}}, {{date}}
+ * and {{created}}, with a format such as {{date:YYYY-MM-DD}}.
+ * @param source The file the note is for
+ * @param pattern The name pattern from settings
+ */
+export function getNoteName(source: NoteSource, pattern: string): string {
+    const name = replaceTemplateVariables(pattern.trim() || '{{basename}}', {
+        basename: source.basename,
+        extension: source.extension,
+        folder: joinPath(source.folder).split('/').pop() || '',
+        date: new Date(),
+        created: new Date(source.ctime)
+    }).trim();
+    return (name || source.basename).replace(INVALID_NAME_CHARS, '-');
+}
+
+/**
+ * Get the folder a file is moved to, inside its note's folder
+ * @param noteFolder The note's folder
+ * @param settings Plugin settings
+ */
+export function getAttachmentFolder(noteFolder: string, settings: TagFilesAndNotesSettings): string {
+    return joinPath(noteFolder, settings.attachmentsFolder);
+}
@@ -48,9 +48,9 @@ export function normalizeSpelling(text: string, languagePreference: LanguagePref
  * @returns Text stripped of special characters and normalized to lowercase
  */
 export function normalizeForComparison(text: string): string {
-    // Convert to lowercase and remove special characters
+    // Convert to lowercase and remove special characters, keeping nested tag separators
     return text.toLowerCase()
-        .replace(/[^\w\s-]/g, '')
+        .replace(/[^\w\s\/-]/g, '')
         .replace(/\s+/g, '-')
         .replace(/-+/g, '-');
 }
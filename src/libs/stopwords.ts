@@ -0,0 +1,37 @@
+/**
+ * Stopword lists for offline keyword extraction
+ */
+
+import { LanguagePreference } from '../handlers/types';
+
+const ENGLISH_STOPWORDS = [
+    'a', 'about', 'above', 'after', 'again', 'against', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+    'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by',
+    'can', 'cannot', 'could', 'did', 'do', 'does', 'doing', 'done', 'down', 'during',
+    'each', 'either', 'else', 'etc', 'even', 'ever', 'every', 'few', 'for', 'from', 'further',
+    'get', 'gets', 'got', 'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'herself', 'him', 'himself', 'his', 'how', 'however',
+    'i', 'if', 'in', 'into', 'is', 'it', 'its', 'itself', 'just', 'least', 'less', 'let', 'like', 'made', 'make', 'many', 'may', 'me',
+    'might', 'more', 'most', 'much', 'must', 'my', 'myself', 'neither', 'never', 'no', 'nor', 'not', 'now',
+    'of', 'off', 'often', 'on', 'once', 'one', 'only', 'or', 'other', 'others', 'otherwise', 'ought', 'our', 'ours', 'ourselves', 'out', 'over', 'own',
+    'per', 'perhaps', 'put', 'quite', 'rather', 'really', 'same', 'see', 'seen', 'shall', 'she', 'should', 'since', 'so', 'some', 'such',
+    'than', 'that', 'the', 'their', 'theirs', 'them', 'themselves', 'then', 'there', 'these', 'they', 'this', 'those', 'though', 'through', 'thus', 'to', 'too',
+    'under', 'until', 'up', 'upon', 'us', 'use', 'used', 'using', 'very', 'via',
+    'was', 'we', 'well', 'were', 'what', 'when', 'where', 'whether', 'which', 'while', 'who', 'whom', 'whose', 'why', 'will', 'with', 'within', 'without', 'would',
+    'yet', 'you', 'your', 'yours', 'yourself', 'yourselves'
+];
+
+// UK and US English share the same function words; the spelling of
+// keywords is normalised separately using the spelling variants
+const STOPWORDS: Record<LanguagePreference, Set<string>> = {
+    uk: new Set(ENGLISH_STOPWORDS),
+    us: new Set(ENGLISH_STOPWORDS)
+};
+
+/**
+ * Get the stopwords for a language preference
+ * @param languagePreference The user's language preference
+ * @returns Set of lowercase stopwords
+ */
+export function getStopwords(languagePreference: LanguagePreference): Set<string> {
+    return STOPWORDS[languagePreference] || STOPWORDS.uk;
+}
@@ -0,0 +1,84 @@
+/**
+ * Summaries
+ * Prompts for an abstract and key points, parses the reply and formats
+ * it for a note
+ */
+
+/**
+ * An abstract and key points for a document
+ */
+export interface NoteSummary {
+    summary: string;
+    keyPoints: string[];
+}
+
+export const SUMMARY_SYSTEM_PROMPT = 'You are a helpful assistant that summarises documents accurately and concisely. Reply only with JSON, no other text.';
+
+export const SUMMARY_FORMAT_INSTRUCTION = 'Reply ONLY with JSON in the form {"summary": "the abstract", "key_points": ["first point", "second point"]}.';
+
+export const COMBINE_SUMMARIES_PROMPT = 'The following are summaries of consecutive sections of one document. Combine them into a single summary of the whole document.';
+
+/**
+ * Build the prompt for a summary: the user's instructions and the reply format
+ * @param prompt The summary prompt from settings
+ */
+export function buildSummaryPrompt(prompt: string): string {
+    return `${prompt.trim()}\n\n${SUMMARY_FORMAT_INSTRUCTION}`;
+}
+
+/**
+ * Parse a summary reply. When the model ignored the JSON format, the prose
+ * becomes the summary and any bullet lines become the key points.
+ * @param responseText The raw reply
+ * @returns The summary, or null if the reply was empty
+ */
+export function parseSummaryResponse(responseText: string): NoteSummary | null {
+    const text = responseText.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    if (!text) return null;
+
+    try {
+        const data = JSON.parse(text);
+        const summary = typeof data?.summary === 'string' ? data.summary.trim() : '';
+        const keyPoints = Array.isArray(data?.key_points)
+            ? data.key_points.map((point: unknown) => String(point).trim()).filter((point: string) => point.length > 0)
+            : [];
+        return summary || keyPoints.length > 0 ? { summary, keyPoints } : null;
+    } catch (error) {
+        const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+        const bullet = /^([-*•]|\d+[.)])\s+/;
+        return {
+            summary: lines.filter(line => !bullet.test(line)).join(' '),
+            keyPoints: lines.filter(line => bullet.test(line)).map(line => line.replace(bullet, ''))
+        };
+    }
+}
+
+/**
+ * Format summaries of several chunks as input for combining them
+ */
+export function formatChunkSummaries(summaries: NoteSummary[]): string {
+    return summaries
+        .map((chunk, index) => [`Section ${index + 1}: ${chunk.summary}`, ...chunk.keyPoints.map(point => `- ${point}`)].join('\n'))
+        .join('\n\n');
+}
+
+/**
+ * Format key points as a markdown list
+ */
+export function formatKeyPoints(keyPoints: string[]): string {
+    return keyPoints.map(point => `- ${point}`).join('\n');
+}
+
+/**
+ * Format the summary as a note section
+ */
+export function formatSummarySection(summary: NoteSummary): string {
+    const parts = ['## Summary'];
+    if (summary.summary) {
+        parts.push(summary.summary);
+    }
+    if (summary.keyPoints.length > 0) {
+        parts.push('### Key Points', formatKeyPoints(summary.keyPoints));
+    }
+    return parts.join('\n\n');
+}
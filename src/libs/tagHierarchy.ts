@@ -0,0 +1,92 @@
+/**
+ * Nested tags
+ * Splits parent/child tags into segments, places tags under configured
+ * roots and enforces a maximum depth
+ */
+
+export interface TagHierarchyOptions {
+    /** Top-level segments tags must start with; empty allows any */
+    roots: string[];
+    /** Most segments a tag may have, including the root */
+    maxDepth: number;
+}
+
+/**
+ * Split a tag into its path segments, ignoring empty segments
+ * @param tag The tag, such as topic/machine-learning
+ */
+export function splitTagPath(tag: string): string[] {
+    return tag
+        .trim()
+        .replace(/^#/, '')
+        .split('/')
+        .map(segment => segment.trim())
+        .filter(segment => segment.length > 0);
+}
+
+/**
+ * Parse roots entered as a comma-separated list, accepting trailing slashes
+ * @param rootText The raw roots text from settings
+ */
+export function parseTagRoots(rootText: string): string[] {
+    return rootText
+        .split(',')
+        .map(root => splitTagPath(root).join('/'))
+        .filter(root => root.length > 0);
+}
+
+/**
+ * Build the prompt instruction that asks for nested tags
+ * @param options Roots and depth limit
+ */
+export function buildHierarchyInstruction(options: TagHierarchyOptions): string {
+    const depth = getEffectiveDepth(options);
+    let instruction = `Use nested tags written as parent/child, with at most ${depth} level${depth !== 1 ? 's' : ''} separated by "/". The word limit applies to each level, not the whole tag.`;
+    if (options.roots.length > 0) {
+        instruction += ` Start every tag with one of these parents: ${options.roots.map(root => `${root}/`).join(', ')}.`;
+    }
+    return instruction;
+}
+
+/**
+ * Place tags under a configured root and cut them to the maximum depth.
+ * Tags that do not start with a root go under the first root.
+ * @param tags The generated tags
+ * @param options Roots and depth limit
+ * @returns The nested tags without duplicates
+ */
+export function applyTagHierarchy(tags: string[], options: TagHierarchyOptions): string[] {
+    const depth = getEffectiveDepth(options);
+    const result: string[] = [];
+
+    tags.forEach(tag => {
+        let segments = splitTagPath(tag);
+        if (segments.length === 0) return;
+
+        if (options.roots.length > 0) {
+            const path = segments.join('/').toLowerCase();
+            const root = options.roots.find(candidate => path === candidate.toLowerCase() || path.startsWith(`${candidate.toLowerCase()}/`));
+            if (!root) {
+                segments = [...splitTagPath(options.roots[0]), ...segments];
+            } else if (path === root.toLowerCase()) {
+                // A bare root says nothing about the note
+                return;
+            }
+        }
+
+        const nested = segments.slice(0, depth).join('/');
+        if (!result.includes(nested)) {
+            result.push(nested);
+        }
+    });
+
+    return result;
+}
+
+/**
+ * Roots take a level, so allow at least one more for the tag itself
+ */
+function getEffectiveDepth(options: TagHierarchyOptions): number {
+    const rootDepth = Math.max(0, ...options.roots.map(root => splitTagPath(root).length));
+    return Math.max(options.maxDepth, rootDepth + 1, 1);
+}
@@ -0,0 +1,175 @@
+/**
+ * Tag matching
+ * Finds an existing tag that a suggested tag is a near-duplicate of,
+ * ignoring case, hyphenation, spelling variants, plurals and small typos
+ */
+
+import { LanguagePreference } from '../handlers/types';
+import { normalizeSpelling } from './spellingNormalizer';
+
+export interface TagMatchOptions {
+    languagePreference: LanguagePreference;
+    /** Largest number of character edits between two tags that still match, 0 to only match variants */
+    maxDistance: number;
+}
+
+/**
+ * A suggested tag replaced by an existing one
+ */
+export interface SnappedTag {
+    suggested: string;
+    existing: string;
+}
+
+/**
+ * Suggested tags after matching against existing tags
+ */
+export interface TagSnapResult {
+    tags: string[];
+    snapped: SnappedTag[];
+    /** Suggested tags with no existing match */
+    created: string[];
+}
+
+// Short tags differ meaningfully by a single letter ("cat", "car")
+const MIN_FUZZY_LENGTH = 5;
+
+/**
+ * Reduce an English word to its singular form with common suffix rules
+ */
+export function singularize(word: string): string {
+    if (word.length > 4 && word.endsWith('ies')) {
+        return word.slice(0, -3) + 'y';
+    }
+    if (/(ss|x|z|ch|sh)es$/.test(word)) {
+        return word.slice(0, -2);
+    }
+    if (word.length > 3 && word.endsWith('s') && !/(ss|us|is)$/.test(word)) {
+        return word.slice(0, -1);
+    }
+    return word;
+}
+
+/**
+ * Build the key two tags share when they are variants of each other.
+ * Each word is spelled in the preferred variant and made singular, and
+ * separators are dropped so "machine-learning" and "MachineLearning" match.
+ */
+export function getTagMatchKey(tag: string, languagePreference: LanguagePreference): string {
+    return tag
+        .replace(/^#/, '')
+        // Split camel case before lowercasing so the words can be normalised
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .toLowerCase()
+        .split('/')
+        .map(segment => segment
+            .split(/[\s_-]+/)
+            .filter(word => word.length > 0)
+            .map(word => singularize(normalizeSpelling(word, languagePreference).toLowerCase()))
+            .join(''))
+        .join('/');
+}
+
+/**
+ * Levenshtein distance between two strings, giving up once it exceeds the limit
+ * @returns The distance, or limit + 1 if the strings are further apart
+ */
+export function editDistance(a: string, b: string, limit: number): number {
+    if (Math.abs(a.length - b.length) > limit) {
+        return limit + 1;
+    }
+
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMinimum = i;
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+            rowMinimum = Math.min(rowMinimum, current[j]);
+        }
+        if (rowMinimum > limit) {
+            return limit + 1;
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+/**
+ * An existing tag with its precomputed match key
+ */
+interface TagCandidate {
+    tag: string;
+    key: string;
+    count: number;
+}
+
+/**
+ * Compute match keys for existing tags once, since spelling normalisation is not cheap
+ */
+function buildCandidates(existingTags: Map<string, number>, languagePreference: LanguagePreference): TagCandidate[] {
+    return [...existingTags.entries()].map(([tag, count]) => ({
+        tag,
+        key: getTagMatchKey(tag, languagePreference),
+        count
+    }));
+}
+
+/**
+ * Find the closest candidate for a suggested tag
+ */
+function findClosestCandidate(tag: string, candidates: TagCandidate[], options: TagMatchOptions): TagCandidate | null {
+    const key = getTagMatchKey(tag, options.languagePreference);
+    let best: TagCandidate | null = null;
+    let bestDistance = Infinity;
+
+    for (const candidate of candidates) {
+        let distance = 0;
+        if (candidate.key !== key) {
+            const shorter = Math.min(key.length, candidate.key.length);
+            if (shorter < MIN_FUZZY_LENGTH) continue;
+
+            // Allow about one edit per four characters so short tags need a closer match
+            const limit = Math.min(options.maxDistance, Math.floor(shorter / 4));
+            distance = editDistance(key, candidate.key, limit);
+            if (distance > limit) continue;
+        }
+
+        // Prefer the closest match, then the most widely used tag
+        if (!best || distance < bestDistance || (distance === bestDistance && candidate.count > best.count)) {
+            best = candidate;
+            bestDistance = distance;
+        }
+    }
+    return best;
+}
+
+/**
+ * Replace suggested tags with the existing tags they duplicate
+ * @param tags The suggested tags
+ * @param existingTags Existing tags mapped to how many notes use them
+ * @param options Matching options
+ * @returns The tags to use, and which were snapped or are new
+ */
+export function snapTags(tags: string[], existingTags: Map<string, number>, options: TagMatchOptions): TagSnapResult {
+    const candidates = buildCandidates(existingTags, options.languagePreference);
+    const result: TagSnapResult = { tags: [], snapped: [], created: [] };
+
+    tags.forEach(tag => {
+        const match = findClosestCandidate(tag, candidates, options);
+        const finalTag = match ? match.tag : tag;
+
+        // Two suggestions can snap to the same existing tag
+        if (result.tags.includes(finalTag)) return;
+        result.tags.push(finalTag);
+
+        if (!match) {
+            result.created.push(tag);
+        } else if (match.tag !== tag) {
+            result.snapped.push({ suggested: tag, existing: match.tag });
+        }
+    });
+
+    return result;
+}
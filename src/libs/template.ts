@@ -0,0 +1,172 @@
+/**
+ * Note templates
+ * Renders `{{variable}}` and `{{variable:FORMAT}}` placeholders, plus
+ * `{{#if name}}…{{else}}…{{/if}}` and `{{#each name}}…{{this}}…{{/each}}` blocks
+ */
+
+import { moment, stringifyYaml } from 'obsidian';
+import { FileToNoteError } from './errorHandling';
+import { splitFrontmatter } from './frontmatter';
+
+/**
+ * A value a template can show. Dates accept a moment.js format, such as
+ * `{{created:YYYY-MM}}`; lists can be looped over with `{{#each}}`.
+ */
+export type TemplateValue = string | number | boolean | Date | string[] | null | undefined;
+
+export type TemplateVariables = Record<string, TemplateValue>;
+
+/**
+ * Options for rendering a template
+ */
+export interface TemplateOptions {
+    /** Write values so they stay valid YAML, for frontmatter */
+    yaml?: boolean;
+}
+
+type TemplateNode =
+    | { type: 'text'; text: string }
+    | { type: 'variable'; name: string; format?: string; source: string }
+    | { type: 'if'; name: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+    | { type: 'each'; name: string; body: TemplateNode[] };
+
+const TAG_PATTERN = /{{\s*([^{}]*?)\s*}}/;
+
+// Block tags alone on a line take the whole line with them, so they leave no blank lines
+const STANDALONE_BLOCK_TAG = /^[ \t]*({{\s*(?:[#\/][^{}]*|else)\s*}})[ \t]*(?:\r?\n|$)/gm;
+
+/**
+ * Render a template. Placeholders for variables that are not given are
+ * left as they are.
+ * @param template The template text
+ * @param variables Variable names mapped to their values
+ * @param options Rendering options
+ * @throws FileToNoteError if a block is not closed or closed by the wrong tag
+ */
+export function renderTemplate(template: string, variables: TemplateVariables, options: TemplateOptions = {}): string {
+    const nodes = parseTemplate(template.replace(STANDALONE_BLOCK_TAG, '$1'));
+    return renderNodes(nodes, variables, options);
+}
+
+/**
+ * Render a whole note template, writing values in its frontmatter as YAML
+ * and values in its body as text
+ * @param template The template note's content
+ * @param variables Variable names mapped to their values
+ */
+export function renderNoteTemplate(template: string, variables: TemplateVariables): string {
+    const parts = splitFrontmatter(template);
+    if (!parts) {
+        return renderTemplate(template, variables);
+    }
+    const { opening, lines, closing, body, lineEnding } = parts;
+    const frontmatter = renderTemplate(lines.map(line => line + lineEnding).join(''), variables, { yaml: true });
+    return `${opening}${frontmatter}${closing}${renderTemplate(body, variables)}`;
+}
+
+/**
+ * Parse a template into text, variables and blocks
+ */
+function parseTemplate(template: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    // Open blocks, innermost last, with the branch currently being filled
+    const stack: Array<{ node: TemplateNode; tag: string; branch: TemplateNode[] }> = [];
+    const current = () => stack.length > 0 ? stack[stack.length - 1].branch : root;
+    const pattern = new RegExp(TAG_PATTERN.source, 'g');
+
+    let index = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(template)) !== null) {
+        if (match.index > index) {
+            current().push({ type: 'text', text: template.slice(index, match.index) });
+        }
+        index = match.index + match[0].length;
+
+        const tag = match[1];
+        const block = tag.match(/^#(if|each)\s+(\S+)$/);
+        const open = stack[stack.length - 1];
+        if (block && block[1] === 'if') {
+            const node: TemplateNode = { type: 'if', name: block[2], then: [], otherwise: [] };
+            current().push(node);
+            stack.push({ node, tag: match[0], branch: node.then });
+        } else if (block) {
+            const node: TemplateNode = { type: 'each', name: block[2], body: [] };
+            current().push(node);
+            stack.push({ node, tag: match[0], branch: node.body });
+        } else if (tag === 'else' && open && open.node.type === 'if') {
+            open.branch = open.node.otherwise;
+        } else if (tag === '/if' || tag === '/each') {
+            if (!open || `/${open.node.type}` !== tag) {
+                throw new FileToNoteError(`Template has ${match[0]} without a matching opening tag`, 'INVALID_TEMPLATE');
+            }
+            stack.pop();
+        } else {
+            const separator = tag.indexOf(':');
+            current().push(separator > 0
+                ? { type: 'variable', name: tag.slice(0, separator).trim(), format: tag.slice(separator + 1).trim(), source: match[0] }
+                : { type: 'variable', name: tag, source: match[0] });
+        }
+    }
+
+    if (stack.length > 0) {
+        throw new FileToNoteError(`Template block ${stack[stack.length - 1].tag} is not closed`, 'INVALID_TEMPLATE');
+    }
+    if (index < template.length) {
+        current().push({ type: 'text', text: template.slice(index) });
+    }
+    return root;
+}
+
+/**
+ * Render parsed nodes with the given variables
+ */
+function renderNodes(nodes: TemplateNode[], variables: TemplateVariables, options: TemplateOptions): string {
+    return nodes.map(node => {
+        switch (node.type) {
+            case 'text':
+                return node.text;
+            case 'variable':
+                if (!(node.name in variables)) return node.source;
+                return formatValue(variables[node.name], node.format, options);
+            case 'if':
+                return renderNodes(isTruthy(variables[node.name]) ? node.then : node.otherwise, variables, options);
+            case 'each': {
+                const value = variables[node.name];
+                const items = Array.isArray(value) ? value : isTruthy(value) ? [String(value)] : [];
+                return items
+                    .map((item, itemIndex) => renderNodes(node.body, { ...variables, this: item, '@index': itemIndex + 1 }, options))
+                    .join('');
+            }
+        }
+    }).join('');
+}
+
+/**
+ * Check whether a value counts as set for `{{#if}}`
+ */
+function isTruthy(value: TemplateValue): boolean {
+    if (Array.isArray(value)) return value.length > 0;
+    if (value instanceof Date) return !isNaN(value.getTime());
+    if (typeof value === 'string') return value.trim().length > 0;
+    return Boolean(value);
+}
+
+/**
+ * Format a value as text, or as YAML for frontmatter
+ */
+function formatValue(value: TemplateValue, format: string | undefined, options: TemplateOptions): string {
+    if (value === null || value === undefined) return '';
+
+    if (value instanceof Date) {
+        // Obsidian's moment export is typed as a namespace, so it cannot be called directly
+        return moment.unix(value.getTime() / 1000).format(format || 'YYYY-MM-DD');
+    }
+    if (Array.isArray(value)) {
+        return options.yaml ? JSON.stringify(value) : value.join(', ');
+    }
+    if (typeof value !== 'string' || !options.yaml) {
+        return String(value);
+    }
+    // Multi-line text is kept on one line as a double-quoted string
+    return value.includes('\n') ? JSON.stringify(value) : stringifyYaml(value).replace(/\s+$/, '');
+}
@@ -1,5 +1,11 @@
 import { TagCaseFormat, TagFilesAndNotesSettings } from '../handlers/types';
 import { Notice, TFile } from 'obsidian';
+import { ERROR_MESSAGES, IMAGE_MIME_TYPES } from './constants';
+import { CancellationToken, RequestControl } from './cancellation';
+import { FileToNoteError } from './errorHandling';
+import { splitFrontmatter } from './frontmatter';
+import { renderTemplate, TemplateOptions, TemplateVariables } from './template';
+import { splitTagPath } from './tagHierarchy';
 
 /**
  * Format a date as YYYY-MM-DD
@@ -9,16 +15,28 @@ export function formatDate(date: Date = new Date()): string {
 }
 
 /**
- * Replace template variables in a string
+ * Format a file size in bytes for people, such as 1.2 MB
+ */
+export function formatFileSize(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB'];
+    let size = bytes;
+    let unit = 0;
+    while (size >= 1024 && unit < units.length - 1) {
+        size /= 1024;
+        unit++;
+    }
+    return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Replace template variables in a string, including `{{date:FORMAT}}`,
+ * `{{#if}}` and `{{#each}}` blocks
  * @param template The template string
  * @param variables An object with variable names as keys and their values
+ * @param options Set `yaml` when the template is frontmatter
  */
-export function replaceTemplateVariables(template: string, variables: Record<string, string>): string {
-    let result = template;
-    for (const [key, value] of Object.entries(variables)) {
-        result = result.replace(new RegExp(`{{${key}}}`, 'g'), value);
-    }
-    return result;
+export function replaceTemplateVariables(template: string, variables: TemplateVariables, options: TemplateOptions = {}): string {
+    return renderTemplate(template, variables, options);
 }
 
 /**
@@ -27,13 +45,8 @@ export function replaceTemplateVariables(template: string, variables: Record<str
  * @returns The content without frontmatter
  */
 export function stripFrontmatter(content: string): string {
-    if (content.startsWith('---\n')) {
-        const frontmatterEnd = content.indexOf('---\n', 4);
-        if (frontmatterEnd !== -1) {
-            return content.substring(frontmatterEnd + 4).trim();
-        }
-    }
-    return content;
+    const parts = splitFrontmatter(content);
+    return parts ? parts.body.trim() : content;
 }
 
 /**
@@ -64,19 +77,18 @@ export function countWords(str: string): number {
 
 /**
  * Check if a tag is valid based on the maximum words per tag setting
- * Special handling for one-word requests to allow up to two words
+ * Special handling for one-word requests to allow up to two words.
+ * Nested tags are checked one level at a time.
  * @param tag The tag to check
  * @param maxWordsPerTag The maximum words per tag setting
  * @returns True if the tag is valid, false otherwise
  */
 export function isValidTag(tag: string, maxWordsPerTag: number): boolean {
-    const wordCount = countWords(tag);
     // Special handling for one-word requests
-    if (maxWordsPerTag === 1) {
-        return wordCount <= 2; // Allow up to two words for one-word requests
-    }
+    const limit = maxWordsPerTag === 1 ? 2 : maxWordsPerTag;
 
-    return wordCount <= maxWordsPerTag;
+    const segments = tag.trim().replace(/^#/, '').split('/');
+    return segments.every(segment => segment.trim().length > 0 && countWords(segment) <= limit);
 }
 
 /**
@@ -108,14 +120,24 @@ export function filterErroneousTags(tags: string[], maxWordsPerTag: number): {
  * Format a tag to be valid in Obsidian
  * - Remove spaces (replace with hyphens)
  * - Remove quotes
- * - Apply case formatting based on settings
+ * - Apply case formatting based on settings, to each level of a nested tag
  * @param tag The tag to format
  * @param caseFormat The case format to apply
  * @returns The formatted tag
  */
 export function formatTag(tag: string, caseFormat: TagCaseFormat = 'lowercase'): string {
-    // First, clean the tag by removing quotes and replacing spaces with hyphens
-    let formattedTag = tag.replace(/"/g, '').replace(/\s+/g, '-');
+    // Nested tags are formatted one level at a time
+    return splitTagPath(tag.replace(/"/g, ''))
+        .map(segment => formatTagSegment(segment, caseFormat))
+        .join('/');
+}
+
+/**
+ * Format a single level of a tag
+ */
+function formatTagSegment(segment: string, caseFormat: TagCaseFormat): string {
+    // Clean the segment by replacing spaces with hyphens
+    const formattedTag = segment.replace(/\s+/g, '-');
 
     // Apply case formatting based on the setting
     switch (caseFormat) {
@@ -139,34 +161,54 @@ export function formatTag(tag: string, caseFormat: TagCaseFormat = 'lowercase'):
 /**
  * Add delay for rate limiting and other purposes
  * @param ms Milliseconds to delay
+ * @param cancellation Ends the delay early, rejecting with a cancellation error
  * @returns Promise that resolves after the delay
  */
-export function delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+export function delay(ms: number, cancellation?: CancellationToken): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new FileToNoteError(ERROR_MESSAGES.AI_REQUEST_CANCELLED, 'CANCELLED'));
+        };
+        const timer = setTimeout(() => {
+            cancellation?.signal.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+
+        if (cancellation?.isCancelled) {
+            onAbort();
+        } else {
+            cancellation?.signal.addEventListener('abort', onAbort);
+        }
+    });
 }
 
 /**
- * Retry a function with exponential backoff
- * @param fn The function to retry
+ * Retry a function with exponential backoff. The timeout in control covers
+ * every attempt and the waits between them, and cancelling ends a wait.
+ * @param fn The function to retry, given the cancellation token and the time left for its attempt
  * @param retries Number of retries
  * @param initialDelay Initial delay in milliseconds
  * @param showNotice Whether to show a notification for retries
+ * @param control Cancellation token and timeout for the whole call
  * @returns The result of the function
  */
 export async function retryWithDelay<T>(
-    fn: () => Promise<T>,
+    fn: (control: RequestControl) => Promise<T>,
     retries: number = 2,
     initialDelay: number = 5000,
-    showNotice: boolean = true
+    showNotice: boolean = true,
+    control: RequestControl = {}
 ): Promise<T> {
     let lastError: Error | null = null;
     let currentDelay = initialDelay;
+    const deadline = control.timeoutMs && control.timeoutMs > 0 ? Date.now() + control.timeoutMs : null;
 
     for (let attempt = 0; attempt <= retries; attempt++) {
         try {
             if (attempt > 0) {
                 console.log(`Retry attempt ${attempt} of ${retries}, waiting ${currentDelay}ms...`);
-                await delay(currentDelay);
+                await delay(currentDelay, control.cancellation);
 
                 // Show retry notification if enabled
                 if (showNotice) {
@@ -175,7 +217,10 @@ export async function retryWithDelay<T>(
 
                 currentDelay *= 2; // Double the delay for each retry
             }
-            return await fn();
+            return await fn({
+                cancellation: control.cancellation,
+                timeoutMs: deadline !== null ? Math.max(1, deadline - Date.now()) : undefined
+            });
         } catch (error) {
             lastError = error;
             if (!error.message.includes('429')) {
@@ -185,6 +230,10 @@ export async function retryWithDelay<T>(
                 console.log('All retry attempts failed');
                 throw error;
             }
+            if (deadline !== null && Date.now() + currentDelay >= deadline) {
+                console.log('No time left to retry before the request timeout');
+                throw error;
+            }
         }
     }
     throw lastError!; // We know it's not null here because we would have thrown earlier if no error occurred
@@ -200,3 +249,11 @@ export function isFileTypeSupported(file: TFile, acceptedFileTypes: string[]): b
     return acceptedFileTypes.includes(file.extension.toLowerCase());
 }
 
+/**
+ * Checks if the file is an image that vision models can tag
+ * @param file The file to check
+ * @returns True if the file is a supported image type
+ */
+export function isImageFile(file: TFile): boolean {
+    return file.extension.toLowerCase() in IMAGE_MIME_TYPES;
+}
@@ -0,0 +1,133 @@
+/**
+ * Controlled vocabulary
+ * Parses a list of allowed tags with synonyms and blocked terms, and
+ * enforces it on generated tags
+ */
+
+import { LanguagePreference } from '../handlers/types';
+import { getTagMatchKey } from './tagMatcher';
+
+/**
+ * Allowed tags, their synonyms and blocked terms
+ */
+export interface Vocabulary {
+    /** Allowed tags as written in the vocabulary */
+    allowed: string[];
+    /** Synonyms mapped to the allowed tag that replaces them */
+    synonyms: Map<string, string>;
+    blocked: string[];
+}
+
+/**
+ * Generated tags after applying the vocabulary
+ */
+export interface VocabularyResult {
+    tags: string[];
+    mapped: Array<{ suggested: string, allowed: string }>;
+    dropped: string[];
+}
+
+export const VOCABULARY_TEMPLATE = `# Tag vocabulary
+
+One allowed tag per line. Synonyms that should become the tag go after a colon.
+Lines starting with ! are blocked and never added.
+
+- machine-learning: ml, deep-learning, neural-networks
+- productivity: getting-things-done, gtd
+- !misc
+- !untitled
+`;
+
+/**
+ * Parse vocabulary text. Markdown headings, paragraphs with spaces and
+ * blank lines are ignored, and a leading list marker is allowed.
+ * @param text The vocabulary file content
+ */
+export function parseVocabulary(text: string): Vocabulary {
+    const vocabulary: Vocabulary = { allowed: [], synonyms: new Map(), blocked: [] };
+
+    text.split(/\r?\n/).forEach(rawLine => {
+        const line = rawLine.trim().replace(/^[-*+]\s+/, '');
+        if (!line || /^#+\s/.test(line)) return;
+
+        if (line.startsWith('!')) {
+            const blocked = line.substring(1).trim().replace(/^#/, '');
+            if (blocked) vocabulary.blocked.push(blocked);
+            return;
+        }
+
+        const separator = line.indexOf(':');
+        const tag = (separator === -1 ? line : line.substring(0, separator)).trim().replace(/^#/, '');
+        // Skip prose lines such as the instructions in the template
+        if (!tag || /\s/.test(tag)) return;
+
+        vocabulary.allowed.push(tag);
+        if (separator !== -1) {
+            line.substring(separator + 1).split(',')
+                .map(synonym => synonym.trim().replace(/^#/, ''))
+                .filter(synonym => synonym.length > 0)
+                .forEach(synonym => vocabulary.synonyms.set(synonym, tag));
+        }
+    });
+
+    return vocabulary;
+}
+
+/**
+ * Build the prompt instruction that tells the model which tags it may use
+ * @param vocabulary The parsed vocabulary
+ * @param strict Whether tags outside the list are dropped
+ */
+export function buildVocabularyInstruction(vocabulary: Vocabulary, strict: boolean): string {
+    const parts: string[] = [];
+    if (vocabulary.allowed.length > 0) {
+        parts.push(strict
+            ? `Only use tags from this list: ${vocabulary.allowed.join(', ')}.`
+            : `Prefer tags from this list when they fit: ${vocabulary.allowed.join(', ')}.`);
+    }
+    if (vocabulary.blocked.length > 0) {
+        parts.push(`Never use these tags: ${vocabulary.blocked.join(', ')}.`);
+    }
+    return parts.join(' ');
+}
+
+/**
+ * Map synonyms to their allowed tag, drop blocked tags and, in strict
+ * mode, drop anything that is not in the vocabulary. Tags are compared
+ * ignoring case, hyphenation, spelling variants and plurals.
+ * @param tags The generated tags
+ * @param vocabulary The parsed vocabulary
+ * @param strict Whether to drop tags that are not in the vocabulary
+ * @param languagePreference Spelling variant used for comparison
+ */
+export function applyVocabulary(
+    tags: string[],
+    vocabulary: Vocabulary,
+    strict: boolean,
+    languagePreference: LanguagePreference
+): VocabularyResult {
+    const toKey = (tag: string) => getTagMatchKey(tag, languagePreference);
+    const allowed = new Map(vocabulary.allowed.map(tag => [toKey(tag), tag] as [string, string]));
+    const synonyms = new Map([...vocabulary.synonyms.entries()].map(([synonym, tag]) => [toKey(synonym), tag] as [string, string]));
+    const blocked = new Set(vocabulary.blocked.map(toKey));
+
+    const result: VocabularyResult = { tags: [], mapped: [], dropped: [] };
+    tags.forEach(tag => {
+        const key = toKey(tag);
+        const finalTag = allowed.get(key) || synonyms.get(key);
+
+        if (blocked.has(key) || (!finalTag && strict)) {
+            result.dropped.push(tag);
+            return;
+        }
+        if (finalTag && synonyms.has(key) && !allowed.has(key)) {
+            result.mapped.push({ suggested: tag, allowed: finalTag });
+        }
+
+        const output = finalTag || tag;
+        if (!result.tags.includes(output)) {
+            result.tags.push(output);
+        }
+    });
+    return result;
+}
@@ -2,6 +2,10 @@ import { Plugin } from 'obsidian';
 import { TagFilesAndNotesSettings, DEFAULT_SETTINGS } from './handlers/types';
 import { TagFilesAndNotesSettingTab as TagFilesAndNotesSettingTab } from './handlers/settings';
 import { registerCommands } from './handlers/commands';
+import { initTagCache } from './handlers/tagCache';
+import { initUsageLedger } from './handlers/usageLedger';
+import { initTagJournal } from './handlers/tagJournal';
+import { initVaultCorpus, invalidateVaultCorpus } from './handlers/vaultCorpus';
 
 export default class TagFilesAndNotesPlugin extends Plugin {
 	settings: TagFilesAndNotesSettings;
@@ -9,6 +13,22 @@ export default class TagFilesAndNotesPlugin extends Plugin {
 	async onload() {
 		await this.loadSettings();
 
+		// Load cached AI results
+		await initTagCache(this.app, this.manifest.dir || '', this.settings).load();
+
+		// Load recorded AI usage for the budget check and usage view
+		await initUsageLedger(this.app, this.manifest.dir || '').load();
+
+		// Load the record of tag changes so they can be undone, following renamed notes
+		const journal = initTagJournal(this.app, this.manifest.dir || '');
+		await journal.load();
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => journal.renamePath(oldPath, file.path)));
+
+		// Use the vault as the corpus for offline keyword extraction
+		initVaultCorpus(this.app);
+		this.registerEvent(this.app.vault.on('create', invalidateVaultCorpus));
+		this.registerEvent(this.app.vault.on('delete', invalidateVaultCorpus));
+
 		// Register the settings tab
 		this.addSettingTab(new TagFilesAndNotesSettingTab(this.app, this));
 
@@ -21,7 +41,39 @@ export default class TagFilesAndNotesPlugin extends Plugin {
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		const data = await this.loadData();
+		const migrated = this.migrateSettings(data);
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+		if (migrated) {
+			await this.saveSettings();
+		}
+	}
+
+	/**
+	 * Upgrade settings saved by older versions of the plugin
+	 * @param data The raw saved settings, modified in place
+	 * @returns True if anything was changed and needs saving
+	 */
+	private migrateSettings(data: any): boolean {
+		if (!data) return false;
+		let migrated = false;
+
+		// Gemini used to ask for OAuth client credentials that were never used.
+		// Google API keys start with "AIza", so keep one if it was entered there.
+		if ('googleClientId' in data || 'googleClientSecret' in data) {
+			if (!data.geminiApiKey) {
+				const candidate = [data.googleClientSecret, data.googleClientId]
+					.find(value => typeof value === 'string' && value.startsWith('AIza'));
+				if (candidate) {
+					data.geminiApiKey = candidate;
+				}
+			}
+			delete data.googleClientId;
+			delete data.googleClientSecret;
+			migrated = true;
+		}
+
+		return migrated;
 	}
 
 	async saveSettings() {
@@ -0,0 +1,237 @@
+import { retryWithDelay } from '../libs/utils';
+import { RequestControl } from '../libs/cancellation';
+import { CompletionRequest, ImageTagRequest, ImageTagResult, TagRequest, TokenUsage } from './types';
+import { makeApiRequest, buildUserMessage, buildImagePrompt, parseTagResponse, parseImageResponse, withStructuredFallback, TAG_SYSTEM_PROMPT, TAG_RESPONSE_SCHEMA } from './shared';
+
+interface ModelListResponse {
+    data?: Array<{
+        id: string;
+    }>;
+}
+
+interface ChatCompletionResponse {
+    choices: Array<{
+        message: {
+            content: string;
+        };
+    }>;
+    usage?: {
+        prompt_tokens?: number;
+        completion_tokens?: number;
+    };
+}
+
+/**
+ * Pass the reported token usage, if any, to the request's usage callback
+ */
+function reportUsage(data: ChatCompletionResponse, onUsage?: (usage: TokenUsage) => void): void {
+    if (data.usage && onUsage) {
+        onUsage({
+            inputTokens: data.usage.prompt_tokens || 0,
+            outputTokens: data.usage.completion_tokens || 0
+        });
+    }
+}
+
+/**
+ * Connection details for an OpenAI style chat completions endpoint
+ */
+export interface ChatCompletionEndpoint {
+    provider: string;
+    baseUrl: string;
+    model: string;
+    temperature: number;
+    apiKey?: string;
+    headers?: Record<string, string>;
+}
+
+/**
+ * Build request headers for an endpoint, only sending Authorization when a key is set
+ */
+function buildHeaders(endpoint: ChatCompletionEndpoint): Record<string, string> {
+    const headers: Record<string, string> = { ...(endpoint.headers || {}) };
+    if (endpoint.apiKey) {
+        headers['Authorization'] = `Bearer ${endpoint.apiKey}`;
+    }
+    return headers;
+}
+
+/**
+ * Remove trailing slashes so paths can be appended safely
+ */
+export function normalizeBaseUrl(baseUrl: string): string {
+    return baseUrl.trim().replace(/\/+$/, '');
+}
+
+/**
+ * Parse extra headers entered as one "Name: value" pair per line
+ * @param headerText The raw header text from settings
+ * @returns Header names mapped to values
+ */
+export function parseHeaderLines(headerText: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    (headerText || '').split(/\r?\n/).forEach(line => {
+        const separator = line.indexOf(':');
+        if (separator <= 0) return;
+        const name = line.substring(0, separator).trim();
+        const value = line.substring(separator + 1).trim();
+        if (name) {
+            headers[name] = value;
+        }
+    });
+    return headers;
+}
+
+/**
+ * Send a system and user message to an OpenAI style /chat/completions
+ * endpoint and return the reply text
+ * @param body Extra request body fields such as response_format
+ */
+async function requestChatCompletion(
+    endpoint: ChatCompletionEndpoint,
+    system: string,
+    user: string,
+    body: Record<string, unknown>,
+    control: RequestControl,
+    onUsage?: (usage: TokenUsage) => void
+): Promise<string> {
+    const makeRequest = async (attemptControl: RequestControl) => {
+        return await makeApiRequest({
+            url: `${normalizeBaseUrl(endpoint.baseUrl)}/chat/completions`,
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...buildHeaders(endpoint)
+            },
+            body: JSON.stringify({
+                model: endpoint.model,
+                messages: [
+                    {
+                        "role": "system",
+                        "content": system
+                    },
+                    {
+                        "role": "user",
+                        "content": user
+                    }
+                ],
+                temperature: endpoint.temperature,
+                ...body
+            })
+        }, endpoint.provider, attemptControl);
+    };
+
+    const response = await retryWithDelay(makeRequest, 2, 5000, true, control);
+    const data = response.json as ChatCompletionResponse;
+    reportUsage(data, onUsage);
+
+    return data.choices?.[0]?.message?.content || '';
+}
+
+/**
+ * Request tags from an OpenAI style /chat/completions endpoint
+ */
+export async function requestChatCompletionTags(
+    endpoint: ChatCompletionEndpoint,
+    request: TagRequest,
+    control: RequestControl = {}
+): Promise<string[]> {
+    return await withStructuredFallback(request.structured, endpoint.provider, async (structured) => {
+        const responseText = await requestChatCompletion(
+            endpoint,
+            TAG_SYSTEM_PROMPT,
+            buildUserMessage(request.prompt, request.text, structured),
+            structured ? {
+                response_format: {
+                    type: 'json_schema',
+                    json_schema: { name: 'tags', schema: TAG_RESPONSE_SCHEMA }
+                }
+            } : {},
+            control,
+            request.onUsage
+        );
+        return parseTagResponse(responseText, structured);
+    });
+}
+
+/**
+ * Request a free-form reply from an OpenAI style /chat/completions endpoint
+ */
+export async function requestChatCompletionText(
+    endpoint: ChatCompletionEndpoint,
+    request: CompletionRequest,
+    control: RequestControl = {}
+): Promise<string> {
+    return await withStructuredFallback(request.json, endpoint.provider, async (json) => {
+        return await requestChatCompletion(
+            endpoint,
+            request.system,
+            buildUserMessage(request.prompt, request.text),
+            json ? { response_format: { type: 'json_object' } } : {},
+            control,
+            request.onUsage
+        );
+    });
+}
+
+/**
+ * Request tags for an image from an OpenAI style /chat/completions endpoint
+ * using image content parts
+ */
+export async function requestChatCompletionImageTags(
+    endpoint: ChatCompletionEndpoint,
+    request: ImageTagRequest,
+    control: RequestControl = {}
+): Promise<ImageTagResult> {
+    const makeRequest = async (attemptControl: RequestControl) => {
+        return await makeApiRequest({
+            url: `${normalizeBaseUrl(endpoint.baseUrl)}/chat/completions`,
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...buildHeaders(endpoint)
+            },
+            body: JSON.stringify({
+                model: endpoint.model,
+                messages: [
+                    {
+                        "role": "system",
+                        "content": TAG_SYSTEM_PROMPT
+                    },
+                    {
+                        "role": "user",
+                        "content": [
+                            { type: 'text', text: buildImagePrompt(request.prompt, request.describe) },
+                            { type: 'image_url', image_url: { url: `data:${request.mimeType};base64,${request.imageBase64}` } }
+                        ]
+                    }
+                ],
+                temperature: endpoint.temperature
+            })
+        }, endpoint.provider, attemptControl);
+    };
+
+    const response = await retryWithDelay(makeRequest, 2, 5000, true, control);
+    const data = response.json as ChatCompletionResponse;
+    reportUsage(data, request.onUsage);
+
+    return parseImageResponse(data.choices?.[0]?.message?.content || '', request.describe);
+}
+
+/**
+ * List the models exposed by an OpenAI style endpoint
+ * @returns The model ids
+ */
+export async function requestChatCompletionModels(
+    endpoint: ChatCompletionEndpoint,
+    control: RequestControl = {}
+): Promise<string[]> {
+    const response = await makeApiRequest({
+        url: `${normalizeBaseUrl(endpoint.baseUrl)}/models`,
+        method: 'GET',
+        headers: buildHeaders(endpoint)
+    }, endpoint.provider, control);
+
+    const data = response.json as ModelListResponse;
+    return (data.data || []).map(model => model.id).sort();
+}
@@ -0,0 +1,180 @@
+import { TagFilesAndNotesSettings } from '../handlers/types';
+import { retryWithDelay } from '../libs/utils';
+import { RequestControl } from '../libs/cancellation';
+import { CompletionRequest, TagProvider, TagRequest, TokenUsage } from './types';
+import { makeApiRequest, buildUserMessage, parseTagResponse, withStructuredFallback, getProviderOptions, getRequestControl, TAG_SYSTEM_PROMPT, TAG_RESPONSE_SCHEMA } from './shared';
+
+interface GeminiResponse {
+    candidates?: Array<{
+        content?: {
+            parts?: Array<{
+                text?: string;
+            }>;
+        };
+    }>;
+    usageMetadata?: {
+        promptTokenCount?: number;
+        candidatesTokenCount?: number;
+    };
+}
+
+interface GeminiModelsResponse {
+    models?: Array<{
+        name: string;
+        supportedGenerationMethods?: string[];
+    }>;
+}
+
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+/**
+ * Send a system instruction and user message to generateContent and return the reply text
+ * @param generationConfig Extra generation settings such as the response type
+ */
+async function requestGeminiText(
+    settings: TagFilesAndNotesSettings,
+    system: string,
+    user: string,
+    generationConfig: Record<string, unknown>,
+    control: RequestControl,
+    onUsage?: (usage: TokenUsage) => void
+): Promise<string> {
+    const makeRequest = async (attemptControl: RequestControl) => {
+        return await makeApiRequest({
+            url: `${GEMINI_BASE_URL}/models/${encodeURIComponent(settings.geminiModel)}:generateContent`,
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'x-goog-api-key': settings.geminiApiKey
+            },
+            body: JSON.stringify({
+                systemInstruction: {
+                    parts: [
+                        { text: system }
+                    ]
+                },
+                contents: [
+                    {
+                        role: 'user',
+                        parts: [
+                            { text: user }
+                        ]
+                    }
+                ],
+                generationConfig: {
+                    temperature: getProviderOptions(settings, 'gemini').temperature,
+                    ...generationConfig
+                }
+            })
+        }, 'gemini', attemptControl);
+    };
+
+    const response = await retryWithDelay(makeRequest, 2, 5000, true, control);
+    const data = response.json as GeminiResponse;
+    console.log('Data from gemini', data);
+
+    if (data.usageMetadata) {
+        onUsage?.({
+            inputTokens: data.usageMetadata.promptTokenCount || 0,
+            outputTokens: data.usageMetadata.candidatesTokenCount || 0
+        });
+    }
+
+    return (data.candidates?.[0]?.content?.parts || [])
+        .map(part => part.text || '')
+        .join('');
+}
+
+/**
+ * Google Gemini generateContent provider
+ */
+export const geminiProvider: TagProvider = {
+    id: 'gemini',
+    name: 'Google Gemini',
+    paid: true,
+    settings: [
+        {
+            key: 'geminiApiKey',
+            name: 'Gemini API Key',
+            desc: 'Enter your Google AI Studio API key to enable automatic tag generation.',
+            type: 'text',
+            placeholder: 'Enter your Gemini API key'
+        },
+        {
+            key: 'geminiModel',
+            name: 'Gemini Model',
+            desc: 'The Gemini model to use for tag generation',
+            type: 'model',
+            options: {
+                'gemini-2.0-flash': 'Gemini 2.0 Flash',
+                'gemini-2.0-flash-lite': 'Gemini 2.0 Flash-Lite',
+                'gemini-1.5-flash': 'Gemini 1.5 Flash',
+                'gemini-1.5-pro': 'Gemini 1.5 Pro'
+            }
+        }
+    ],
+
+    isConfigured(settings: TagFilesAndNotesSettings): boolean {
+        return !!settings.geminiApiKey;
+    },
+
+    getModel(settings: TagFilesAndNotesSettings): string {
+        return settings.geminiModel;
+    },
+
+    async generate(request: TagRequest, settings: TagFilesAndNotesSettings): Promise<string[]> {
+        return await withStructuredFallback(request.structured, this.id, async (structured) => {
+            const responseText = await requestGeminiText(
+                settings,
+                TAG_SYSTEM_PROMPT,
+                buildUserMessage(request.prompt, request.text, structured),
+                structured ? {
+                    responseMimeType: 'application/json',
+                    responseSchema: TAG_RESPONSE_SCHEMA
+                } : {},
+                getRequestControl(settings, request),
+                request.onUsage
+            );
+            return parseTagResponse(responseText, structured);
+        });
+    },
+
+    async complete(request: CompletionRequest, settings: TagFilesAndNotesSettings): Promise<string> {
+        return await withStructuredFallback(request.json, this.id, async (json) => {
+            return await requestGeminiText(
+                settings,
+                request.system,
+                buildUserMessage(request.prompt, request.text),
+                json ? { responseMimeType: 'application/json' } : {},
+                getRequestControl(settings, request),
+                request.onUsage
+            );
+        });
+    },
+
+    async testConnection(settings: TagFilesAndNotesSettings): Promise<void> {
+        await makeApiRequest({
+            url: `${GEMINI_BASE_URL}/models/${encodeURIComponent(settings.geminiModel)}`,
+            method: 'GET',
+            headers: {
+                'x-goog-api-key': settings.geminiApiKey
+            }
+        }, this.id, getRequestControl(settings));
+    },
+
+    async listModels(settings: TagFilesAndNotesSettings): Promise<string[]> {
+        const response = await makeApiRequest({
+            url: `${GEMINI_BASE_URL}/models?pageSize=1000`,
+            method: 'GET',
+            headers: {
+                'x-goog-api-key': settings.geminiApiKey
+            }
+        }, this.id, getRequestControl(settings));
+
+        const data = response.json as GeminiModelsResponse;
+        return (data.models || [])
+            .filter(model => (model.supportedGenerationMethods || []).includes('generateContent'))
+            .map(model => model.name.replace(/^models\//, ''))
+            .sort();
+    }
+};
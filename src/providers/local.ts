@@ -0,0 +1,37 @@
+import { TagFilesAndNotesSettings } from '../handlers/types';
+import { TagProvider, TagRequest } from './types';
+import { extractKeywords } from '../libs/keywordExtractor';
+import { getVaultCorpusStats } from '../handlers/vaultCorpus';
+
+/**
+ * Offline keyword extraction, no AI model needed. Keyphrases are scored
+ * with RAKE and weighted by how rare their words are across the vault.
+ */
+export const localProvider: TagProvider = {
+    id: 'local',
+    name: 'Offline keyword extraction',
+    settings: [],
+    offline: true,
+
+    isConfigured(settings: TagFilesAndNotesSettings): boolean {
+        return true; // Runs entirely inside the plugin
+    },
+
+    getModel(settings: TagFilesAndNotesSettings): string {
+        return 'keywords';
+    },
+
+    async generate(request: TagRequest, settings: TagFilesAndNotesSettings): Promise<string[]> {
+        request.cancellation?.throwIfCancelled();
+        return extractKeywords(request.text, {
+            maxTags: settings.maxTags,
+            maxWordsPerTag: settings.maxWordsPerTag,
+            languagePreference: settings.languagePreference,
+            corpus: await getVaultCorpusStats()
+        });
+    },
+
+    async testConnection(settings: TagFilesAndNotesSettings): Promise<void> {
+        // Nothing to connect to
+    }
+};
@@ -0,0 +1,153 @@
+import { Mistral } from '@mistralai/mistralai';
+import { TagFilesAndNotesSettings } from '../handlers/types';
+import { retryWithDelay } from '../libs/utils';
+import { RequestControl, withRequestControl } from '../libs/cancellation';
+import { CompletionRequest, TagProvider, TagRequest, TokenUsage } from './types';
+import { buildUserMessage, parseTagResponse, withStructuredFallback, getProviderOptions, getRequestControl, TAG_SYSTEM_PROMPT } from './shared';
+
+/**
+ * Convert Mistral SDK errors to the same format makeApiRequest uses so
+ * retries and notices behave the same
+ */
+function normalizeMistralError(provider: string, error: any): Error {
+    if (error?.statusCode === 429) {
+        return new Error(`${provider} rate limit exceeded (429). Please try again later.`);
+    }
+    return error;
+}
+
+/**
+ * Send a system and user message through the Mistral SDK and return the reply text
+ * @param json Whether to ask for a JSON object response
+ */
+async function requestMistralText(
+    settings: TagFilesAndNotesSettings,
+    system: string,
+    user: string,
+    json: boolean,
+    request: { cancellation?: TagRequest['cancellation'], onUsage?: (usage: TokenUsage) => void }
+): Promise<string> {
+    const client = new Mistral({ apiKey: settings.mistralAiApiKey });
+    const control = getRequestControl(settings, request);
+
+    const makeRequest = async (attemptControl: RequestControl) => {
+        try {
+            return await withRequestControl(client.chat.complete({
+                model: settings.mistralModel,
+                messages: [
+                    {
+                        role: 'system',
+                        content: system
+                    },
+                    {
+                        role: 'user',
+                        content: user
+                    }
+                ],
+                temperature: getProviderOptions(settings, 'mistral').temperature,
+                ...(json ? { responseFormat: { type: 'json_object' as const } } : {})
+            }, {
+                // Unlike requestUrl, the SDK can abort the underlying request
+                fetchOptions: { signal: request.cancellation?.signal }
+            }), 'mistral', attemptControl);
+        } catch (error) {
+            throw normalizeMistralError('mistral', error);
+        }
+    };
+
+    const response = await retryWithDelay(makeRequest, 2, 5000, true, control);
+    console.log('Data from mistral', response);
+
+    if (response.usage) {
+        request.onUsage?.({
+            inputTokens: response.usage.promptTokens || 0,
+            outputTokens: response.usage.completionTokens || 0
+        });
+    }
+
+    const content = response.choices?.[0]?.message?.content;
+
+    // The SDK may return either a plain string or an array of content chunks
+    return typeof content === 'string'
+        ? content
+        : (content || []).map(chunk => chunk.type === 'text' ? chunk.text : '').join('');
+}
+
+/**
+ * Mistral provider using the bundled Mistral SDK
+ */
+export const mistralProvider: TagProvider = {
+    id: 'mistral',
+    name: 'Mistral',
+    paid: true,
+    settings: [
+        {
+            key: 'mistralAiApiKey',
+            name: 'Mistral API Key',
+            desc: 'Enter your Mistral API key to enable automatic tag generation.',
+            type: 'text',
+            placeholder: 'Enter your Mistral API key'
+        },
+        {
+            key: 'mistralModel',
+            name: 'Mistral Model',
+            desc: 'The Mistral model to use for tag generation',
+            type: 'model',
+            options: {
+                'mistral-small-latest': 'Mistral Small',
+                'mistral-medium-latest': 'Mistral Medium',
+                'mistral-large-latest': 'Mistral Large',
+                'open-mistral-nemo': 'Mistral Nemo'
+            }
+        }
+    ],
+
+    isConfigured(settings: TagFilesAndNotesSettings): boolean {
+        return !!settings.mistralAiApiKey;
+    },
+
+    getModel(settings: TagFilesAndNotesSettings): string {
+        return settings.mistralModel;
+    },
+
+    async generate(request: TagRequest, settings: TagFilesAndNotesSettings): Promise<string[]> {
+        return await withStructuredFallback(request.structured, this.id, async (structured) => {
+            const responseText = await requestMistralText(
+                settings,
+                TAG_SYSTEM_PROMPT,
+                buildUserMessage(request.prompt, request.text, structured),
+                structured,
+                request
+            );
+            return parseTagResponse(responseText, structured);
+        });
+    },
+
+    async complete(request: CompletionRequest, settings: TagFilesAndNotesSettings): Promise<string> {
+        return await withStructuredFallback(request.json, this.id, async (json) => {
+            return await requestMistralText(settings, request.system, buildUserMessage(request.prompt, request.text), json, request);
+        });
+    },
+
+    async testConnection(settings: TagFilesAndNotesSettings): Promise<void> {
+        const client = new Mistral({ apiKey: settings.mistralAiApiKey });
+        try {
+            await withRequestControl(client.models.list(), this.id, getRequestControl(settings));
+        } catch (error) {
+            throw normalizeMistralError(this.id, error);
+        }
+    },
+
+    async listModels(settings: TagFilesAndNotesSettings): Promise<string[]> {
+        const client = new Mistral({ apiKey: settings.mistralAiApiKey });
+        try {
+            const response = await withRequestControl(client.models.list(), this.id, getRequestControl(settings));
+            return (response.data || [])
+                .filter(model => model.capabilities?.completionChat !== false)
+                .map(model => model.id)
+                .sort();
+        } catch (error) {
+            throw normalizeMistralError(this.id, error);
+        }
+    }
+};
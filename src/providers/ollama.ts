@@ -0,0 +1,173 @@
+import { TagFilesAndNotesSettings } from '../handlers/types';
+import { retryWithDelay } from '../libs/utils';
+import { RequestControl } from '../libs/cancellation';
+import { CompletionRequest, ImageTagRequest, ImageTagResult, TagProvider, TagRequest, TokenUsage } from './types';
+import { makeApiRequest, buildUserMessage, buildImagePrompt, parseImageResponse, parseTagResponse, withStructuredFallback, getProviderOptions, getRequestControl, TAG_RESPONSE_SCHEMA } from './shared';
+
+interface ollamaAiResponse {
+    response: string;
+    model: string;
+    created_at: string;
+    done: boolean;
+    prompt_eval_count?: number;
+    eval_count?: number;
+}
+
+/**
+ * Pass Ollama's evaluation counts to the request's usage callback
+ */
+function reportUsage(data: ollamaAiResponse, onUsage?: (usage: TokenUsage) => void): void {
+    if (onUsage && (data.prompt_eval_count !== undefined || data.eval_count !== undefined)) {
+        onUsage({
+            inputTokens: data.prompt_eval_count || 0,
+            outputTokens: data.eval_count || 0
+        });
+    }
+}
+
+/**
+ * Send a prompt to Ollama's /api/generate with the text model and return the reply text
+ * @param body The prompt and any extra request fields such as the response format
+ */
+async function requestOllamaText(
+    settings: TagFilesAndNotesSettings,
+    body: Record<string, unknown>,
+    request: { cancellation?: TagRequest['cancellation'], onUsage?: (usage: TokenUsage) => void }
+): Promise<string> {
+    const makeRequest = async (attemptControl: RequestControl) => {
+        return await makeApiRequest({
+            url: `${settings.ollamaHost}/api/generate`,
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+                model: settings.ollamaModel,
+                stream: false,
+                ...body,
+                options: {
+                    temperature: getProviderOptions(settings, 'ollama').temperature
+                }
+            })
+        }, 'ollama', attemptControl);
+    };
+
+    const response = await retryWithDelay(makeRequest, 2, 5000, true, getRequestControl(settings, request));
+
+    const data = response.json as ollamaAiResponse;
+    console.log('Data from ollama', data);
+    reportUsage(data, request.onUsage);
+
+    return data.response;
+}
+
+interface OllamaTagsResponse {
+    models?: Array<{
+        name: string;
+    }>;
+}
+
+/**
+ * Local Ollama provider
+ */
+export const ollamaProvider: TagProvider = {
+    id: 'ollama',
+    name: 'Ollama (Local)',
+    settings: [
+        {
+            key: 'ollamaHost',
+            name: 'Ollama Host',
+            desc: 'The URL where Ollama is running (default: http://localhost:11434)',
+            type: 'text',
+            placeholder: 'http://localhost:11434'
+        },
+        {
+            key: 'ollamaModel',
+            name: 'Ollama Model',
+            desc: 'The model to use for tag generation (e.g., llama2, mistral, etc.)',
+            type: 'model',
+            placeholder: 'llama2'
+        },
+        {
+            key: 'ollamaVisionModel',
+            name: 'Ollama Vision Model',
+            desc: 'A vision-capable model (e.g., llava, llama3.2-vision) used to tag images without text',
+            type: 'model',
+            placeholder: 'llava'
+        }
+    ],
+
+    isConfigured(settings: TagFilesAndNotesSettings): boolean {
+        return true; // Ollama doesn't need API keys
+    },
+
+    getModel(settings: TagFilesAndNotesSettings): string {
+        return settings.ollamaModel;
+    },
+
+    async generate(request: TagRequest, settings: TagFilesAndNotesSettings): Promise<string[]> {
+        return await withStructuredFallback(request.structured, this.id, async (structured) => {
+            const responseText = await requestOllamaText(settings, {
+                prompt: buildUserMessage(request.prompt, request.text, structured),
+                ...(structured ? { format: TAG_RESPONSE_SCHEMA } : {})
+            }, request);
+            return parseTagResponse(responseText, structured);
+        });
+    },
+
+    async complete(request: CompletionRequest, settings: TagFilesAndNotesSettings): Promise<string> {
+        return await withStructuredFallback(request.json, this.id, async (json) => {
+            return await requestOllamaText(settings, {
+                system: request.system,
+                prompt: buildUserMessage(request.prompt, request.text),
+                ...(json ? { format: 'json' } : {})
+            }, request);
+        });
+    },
+
+    async generateFromImage(request: ImageTagRequest, settings: TagFilesAndNotesSettings): Promise<ImageTagResult> {
+        const makeRequest = async (attemptControl: RequestControl) => {
+            return await makeApiRequest({
+                url: `${settings.ollamaHost}/api/generate`,
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({
+                    model: settings.ollamaVisionModel,
+                    prompt: buildImagePrompt(request.prompt, request.describe),
+                    images: [request.imageBase64],
+                    stream: false,
+                    options: {
+                        temperature: getProviderOptions(settings, this.id).temperature
+                    }
+                })
+            }, this.id, attemptControl);
+        };
+
+        const response = await retryWithDelay(makeRequest, 2, 5000, true, getRequestControl(settings, request));
+
+        const data = response.json as ollamaAiResponse;
+        console.log('Data from '+this.id, data);
+        reportUsage(data, request.onUsage);
+
+        return parseImageResponse(data.response, request.describe);
+    },
+
+    async testConnection(settings: TagFilesAndNotesSettings): Promise<void> {
+        await makeApiRequest({
+            url: `${settings.ollamaHost}/api/tags`,
+            method: 'GET'
+        }, this.id, getRequestControl(settings));
+    },
+
+    async listModels(settings: TagFilesAndNotesSettings): Promise<string[]> {
+        const response = await makeApiRequest({
+            url: `${settings.ollamaHost}/api/tags`,
+            method: 'GET'
+        }, this.id, getRequestControl(settings));
+
+        const data = response.json as OllamaTagsResponse;
+        return (data.models || []).map(model => model.name).sort();
+    }
+};
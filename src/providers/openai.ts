@@ -0,0 +1,79 @@
+import { TagFilesAndNotesSettings } from '../handlers/types';
+import { CompletionRequest, ImageTagRequest, ImageTagResult, TagProvider, TagRequest } from './types';
+import { getProviderOptions, getRequestControl } from './shared';
+import { ChatCompletionEndpoint, requestChatCompletionTags, requestChatCompletionText, requestChatCompletionImageTags, requestChatCompletionModels } from './chatCompletions';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * Get the OpenAI endpoint for the current settings
+ */
+function getEndpoint(settings: TagFilesAndNotesSettings): ChatCompletionEndpoint {
+    return {
+        provider: 'openai',
+        baseUrl: OPENAI_BASE_URL,
+        model: settings.openAIModel,
+        temperature: getProviderOptions(settings, 'openai').temperature,
+        apiKey: settings.openAIApiKey
+    };
+}
+
+/**
+ * OpenAI chat completions provider
+ */
+export const openAiProvider: TagProvider = {
+    id: 'openai',
+    name: 'OpenAI',
+    paid: true,
+    settings: [
+        {
+            key: 'openAIApiKey',
+            name: 'OpenAI API Key',
+            desc: 'Enter your OpenAI API key to enable automatic tag generation.',
+            type: 'text',
+            placeholder: 'Enter your OpenAI API key'
+        },
+        {
+            key: 'openAIModel',
+            name: 'OpenAI Model',
+            desc: 'The OpenAI model to use for tag generation',
+            type: 'model',
+            options: {
+                'gpt-4o-mini': 'GPT-4o mini',
+                'gpt-4o': 'GPT-4o',
+                'gpt-3.5-turbo': 'GPT-3.5 Turbo'
+            }
+        }
+    ],
+
+    isConfigured(settings: TagFilesAndNotesSettings): boolean {
+        return !!settings.openAIApiKey;
+    },
+
+    getModel(settings: TagFilesAndNotesSettings): string {
+        return settings.openAIModel;
+    },
+
+    async generate(request: TagRequest, settings: TagFilesAndNotesSettings): Promise<string[]> {
+        return await requestChatCompletionTags(getEndpoint(settings), request, getRequestControl(settings, request));
+    },
+
+    async complete(request: CompletionRequest, settings: TagFilesAndNotesSettings): Promise<string> {
+        return await requestChatCompletionText(getEndpoint(settings), request, getRequestControl(settings, request));
+    },
+
+    async generateFromImage(request: ImageTagRequest, settings: TagFilesAndNotesSettings): Promise<ImageTagResult> {
+        // The current GPT-4o family models all accept image input
+        return await requestChatCompletionImageTags(getEndpoint(settings), request, getRequestControl(settings, request));
+    },
+
+    async testConnection(settings: TagFilesAndNotesSettings): Promise<void> {
+        await requestChatCompletionModels(getEndpoint(settings), getRequestControl(settings));
+    },
+
+    async listModels(settings: TagFilesAndNotesSettings): Promise<string[]> {
+        // The models endpoint also lists embedding, audio and image models
+        const models = await requestChatCompletionModels(getEndpoint(settings), getRequestControl(settings));
+        return models.filter(model => /^(gpt-|o\d|chatgpt-)/.test(model));
+    }
+};
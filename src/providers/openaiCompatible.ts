@@ -0,0 +1,101 @@
+import { TagFilesAndNotesSettings } from '../handlers/types';
+import { CompletionRequest, ImageTagRequest, ImageTagResult, TagProvider, TagRequest } from './types';
+import { getProviderOptions, getRequestControl, isLocalUrl } from './shared';
+import { ChatCompletionEndpoint, requestChatCompletionTags, requestChatCompletionText, requestChatCompletionImageTags, requestChatCompletionModels, parseHeaderLines } from './chatCompletions';
+
+/**
+ * Get the configured OpenAI-compatible endpoint for the current settings
+ */
+function getEndpoint(settings: TagFilesAndNotesSettings): ChatCompletionEndpoint {
+    return {
+        provider: 'openai-compatible',
+        baseUrl: settings.openAICompatibleBaseUrl,
+        model: settings.openAICompatibleModel,
+        temperature: getProviderOptions(settings, 'openai-compatible').temperature,
+        apiKey: settings.openAICompatibleApiKey,
+        headers: parseHeaderLines(settings.openAICompatibleHeaders)
+    };
+}
+
+/**
+ * Any server implementing the OpenAI chat completions API,
+ * such as LM Studio, llama.cpp, vLLM or LocalAI
+ */
+export const openAiCompatibleProvider: TagProvider = {
+    id: 'openai-compatible',
+    name: 'OpenAI-compatible endpoint',
+    settings: [
+        {
+            key: 'openAICompatibleBaseUrl',
+            name: 'Base URL',
+            desc: 'The API base URL including the version path (e.g., http://localhost:1234/v1 for LM Studio)',
+            type: 'text',
+            placeholder: 'http://localhost:1234/v1'
+        },
+        {
+            key: 'openAICompatibleModel',
+            name: 'Model',
+            desc: 'The model name as the server expects it',
+            type: 'model',
+            placeholder: 'local-model'
+        },
+        {
+            key: 'openAICompatibleVisionModel',
+            name: 'Vision model',
+            desc: 'Optional. Model used to tag images without text. Leave empty to use the model above.',
+            type: 'text',
+            placeholder: 'llava'
+        },
+        {
+            key: 'openAICompatibleApiKey',
+            name: 'API Key',
+            desc: 'Optional. Sent as a Bearer token when set.',
+            type: 'text',
+            placeholder: 'Leave empty if the server does not need one'
+        },
+        {
+            key: 'openAICompatibleHeaders',
+            name: 'Extra headers',
+            desc: 'Optional. One header per line in the form "Name: value".',
+            type: 'textarea',
+            placeholder: 'X-Api-Version: 2'
+        }
+    ],
+
+    isConfigured(settings: TagFilesAndNotesSettings): boolean {
+        return !!settings.openAICompatibleBaseUrl && !!settings.openAICompatibleModel;
+    },
+
+    getModel(settings: TagFilesAndNotesSettings): string {
+        return settings.openAICompatibleModel;
+    },
+
+    isPaid(settings: TagFilesAndNotesSettings): boolean {
+        // Servers on this machine or the local network are free; hosted endpoints usually charge
+        return !isLocalUrl(settings.openAICompatibleBaseUrl);
+    },
+
+    async generate(request: TagRequest, settings: TagFilesAndNotesSettings): Promise<string[]> {
+        return await requestChatCompletionTags(getEndpoint(settings), request, getRequestControl(settings, request));
+    },
+
+    async complete(request: CompletionRequest, settings: TagFilesAndNotesSettings): Promise<string> {
+        return await requestChatCompletionText(getEndpoint(settings), request, getRequestControl(settings, request));
+    },
+
+    async generateFromImage(request: ImageTagRequest, settings: TagFilesAndNotesSettings): Promise<ImageTagResult> {
+        const endpoint = getEndpoint(settings);
+        if (settings.openAICompatibleVisionModel) {
+            endpoint.model = settings.openAICompatibleVisionModel;
+        }
+        return await requestChatCompletionImageTags(endpoint, request, getRequestControl(settings, request));
+    },
+
+    async testConnection(settings: TagFilesAndNotesSettings): Promise<void> {
+        await requestChatCompletionModels(getEndpoint(settings), getRequestControl(settings));
+    },
+
+    async listModels(settings: TagFilesAndNotesSettings): Promise<string[]> {
+        return await requestChatCompletionModels(getEndpoint(settings), getRequestControl(settings));
+    }
+};
@@ -0,0 +1,36 @@
+import { AIProvider } from '../handlers/types';
+import { TagProvider } from './types';
+import { openAiProvider } from './openai';
+import { geminiProvider } from './gemini';
+import { ollamaProvider } from './ollama';
+import { mistralProvider } from './mistral';
+import { openAiCompatibleProvider } from './openaiCompatible';
+import { localProvider } from './local';
+
+/**
+ * All available tag providers, in the order they are offered in settings
+ */
+const PROVIDERS: TagProvider[] = [
+    openAiProvider,
+    geminiProvider,
+    ollamaProvider,
+    mistralProvider,
+    openAiCompatibleProvider,
+    localProvider
+];
+
+/**
+ * Get all registered providers
+ */
+export function getProviders(): TagProvider[] {
+    return PROVIDERS;
+}
+
+/**
+ * Look up a provider by id
+ * @param id The provider id
+ * @returns The provider or undefined if none is registered with that id
+ */
+export function getProvider(id: AIProvider): TagProvider | undefined {
+    return PROVIDERS.find(provider => provider.id === id);
+}
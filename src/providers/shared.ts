@@ -0,0 +1,263 @@
+import { requestUrl, RequestUrlParam, RequestUrlResponse } from 'obsidian';
+import { AIProvider, DEFAULT_PROVIDER_OPTIONS, PROVIDER_DEFAULT_OPTIONS, ProviderOptions, TagFilesAndNotesSettings } from '../handlers/types';
+import { RequestControl, withRequestControl } from '../libs/cancellation';
+import { ImageTagResult, TagRequest } from './types';
+
+export const TAG_SYSTEM_PROMPT = 'You are a helpful assistant that generates tags for documents. Return only the tags as requested, no other text.';
+
+export const STRUCTURED_OUTPUT_INSTRUCTION = 'Respond ONLY with JSON in the form {"tags": [{"name": "example-tag", "confidence": 0.9}]}, where confidence is a number between 0 and 1. Ignore any other output format requested above.';
+
+/**
+ * JSON schema describing the structured tag response
+ */
+export const TAG_RESPONSE_SCHEMA = {
+    type: 'object',
+    properties: {
+        tags: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    name: { type: 'string' },
+                    confidence: { type: 'number' }
+                },
+                required: ['name', 'confidence']
+            }
+        }
+    },
+    required: ['tags']
+};
+
+/**
+ * A single tag returned in structured mode
+ */
+interface StructuredTag {
+    name: string;
+    confidence: number;
+}
+
+/**
+ * Check whether a URL points at this machine or the local network
+ * @param url The URL to check
+ * @returns False for hosted servers and URLs that cannot be parsed
+ */
+export function isLocalUrl(url: string): boolean {
+    let host: string;
+    try {
+        host = new URL(url).hostname.toLowerCase().replace(/^\[|\]$/g, '');
+    } catch (error) {
+        return false;
+    }
+    return host === 'localhost'
+        || host === '::1'
+        || host.endsWith('.local')
+        || /^(127|10)\.\d+\.\d+\.\d+$/.test(host)
+        || /^192\.168\.\d+\.\d+$/.test(host)
+        || /^172\.(1[6-9]|2\d|3[01])\.\d+\.\d+$/.test(host)
+        || host === '0.0.0.0';
+}
+
+/**
+ * Common function to make API requests with proper error handling
+ * @param requestParams Request parameters for requestUrl
+ * @param errorPrefix Prefix for error messages
+ * @param control Optional cancellation token and timeout
+ * @returns The response from the API
+ */
+export async function makeApiRequest(
+    requestParams: RequestUrlParam,
+    errorPrefix: string = 'API',
+    control: RequestControl = {}
+): Promise<RequestUrlResponse> {
+    try {
+        const response = await withRequestControl(requestUrl(requestParams), errorPrefix, control);
+
+        if (response.status !== 200) {
+            let errorMessage = `${errorPrefix} request failed`;
+            try {
+                const errorData = response.json;
+                errorMessage = errorData.error?.message || `${errorPrefix} error (${response.status})`;
+            } catch (e) {
+                errorMessage = `${errorPrefix} error (${response.status})`;
+            }
+            // Keep the status so callers can react to specific failures
+            throw Object.assign(new Error(errorMessage), { status: response.status });
+        }
+
+        return response;
+    } catch (error) {
+        // Enhance error with rate limiting information if applicable
+        if (error.message.includes('429')) {
+            error.message = `${errorPrefix} rate limit exceeded (429). Please try again later.`;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Get the generation options for a provider, filling in defaults
+ * @param settings Plugin settings
+ * @param provider The provider id
+ */
+export function getProviderOptions(settings: TagFilesAndNotesSettings, provider: AIProvider): ProviderOptions {
+    return { ...getDefaultProviderOptions(provider), ...(settings.providerOptions[provider] || {}) };
+}
+
+/**
+ * Get a provider's options before the user changes them
+ * @param provider The provider id
+ */
+export function getDefaultProviderOptions(provider: AIProvider): ProviderOptions {
+    return { ...DEFAULT_PROVIDER_OPTIONS, ...(PROVIDER_DEFAULT_OPTIONS[provider] || {}) };
+}
+
+/**
+ * Get the cancellation token and timeout for a provider request
+ * @param settings Plugin settings
+ * @param request The tag request, if the call is part of tag generation
+ */
+export function getRequestControl(settings: TagFilesAndNotesSettings, request?: { cancellation?: TagRequest['cancellation'] }): RequestControl {
+    return {
+        cancellation: request?.cancellation,
+        timeoutMs: settings.requestTimeoutSeconds * 1000
+    };
+}
+
+/**
+ * Build the user message sent to chat style providers
+ * @param prompt The prepared tag prompt
+ * @param text The text to generate tags from
+ * @param structured Whether to ask for a JSON response
+ */
+export function buildUserMessage(prompt: string, text: string, structured: boolean = false): string {
+    const instructions = structured ? `${prompt}\n\n${STRUCTURED_OUTPUT_INSTRUCTION}` : prompt;
+    return `${instructions}\n\nText: ${text}`;
+}
+
+/**
+ * Split a comma-separated model reply into individual tags
+ * @param responseText The raw text returned by the model
+ * @returns Array of non-empty tags
+ */
+export function parseTagList(responseText: string): string[] {
+    return responseText
+        .split(',')
+        .map(tag => tag.trim())
+        .filter(tag => tag.length > 0);
+}
+
+/**
+ * Parse a structured JSON tag reply, ordered by confidence
+ * @param responseText The raw text returned by the model
+ * @returns Array of tag names, or empty if the JSON does not match the expected shape
+ * @throws SyntaxError if the reply is not JSON at all
+ */
+export function parseStructuredTags(responseText: string): string[] {
+    // Some models wrap JSON in a markdown code fence even when asked not to
+    const json = responseText.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    const data = JSON.parse(json);
+
+    if (!data || !Array.isArray(data.tags)) {
+        console.log('Structured response is missing a tags array', data);
+        return [];
+    }
+
+    const tags: StructuredTag[] = data.tags.filter((tag: any) => {
+        const isValid = tag && typeof tag.name === 'string' && tag.name.trim().length > 0
+            && typeof tag.confidence === 'number';
+        if (!isValid) {
+            console.log('Structured tag was filtered out due to invalid shape', tag);
+        }
+        return isValid;
+    });
+
+    return tags
+        .sort((a, b) => b.confidence - a.confidence)
+        .map(tag => tag.name.trim());
+}
+
+/**
+ * Parse a model reply into tags, using the structured parser when requested
+ * and the comma parser when the model ignored the JSON format
+ * @param responseText The raw text returned by the model
+ * @param structured Whether a JSON response was requested
+ * @returns Array of tags
+ */
+export function parseTagResponse(responseText: string, structured: boolean): string[] {
+    if (!structured) {
+        return parseTagList(responseText);
+    }
+    try {
+        return parseStructuredTags(responseText);
+    } catch (error) {
+        console.log('Model did not return JSON, falling back to comma-separated parsing');
+        return parseTagList(responseText);
+    }
+}
+
+/**
+ * Check whether an error means the server rejected the structured output parameters
+ */
+function isStructuredOutputUnsupported(error: any): boolean {
+    const status = error?.status ?? error?.statusCode;
+    return status === 400 || status === 422;
+}
+
+/**
+ * Run a provider request in structured or JSON mode, retrying once in plain
+ * text mode if the model or server does not support structured output
+ * @param structured Whether structured output was requested
+ * @param provider Provider id for logging
+ * @param run Performs the request in the given mode
+ */
+export async function withStructuredFallback<T>(
+    structured: boolean,
+    provider: string,
+    run: (structured: boolean) => Promise<T>
+): Promise<T> {
+    if (!structured) {
+        return await run(false);
+    }
+    try {
+        return await run(true);
+    } catch (error) {
+        if (!isStructuredOutputUnsupported(error)) {
+            throw error;
+        }
+        console.log(`${provider} does not support structured output, retrying with plain text`, error);
+        return await run(false);
+    }
+}
+
+/**
+ * Build the prompt sent alongside an image
+ * @param prompt The prepared tag prompt
+ * @param describe Whether to also ask for a description
+ */
+export function buildImagePrompt(prompt: string, describe: boolean): string {
+    const instructions = `${prompt}\n\nThe content to tag is the attached image.`;
+    if (!describe) {
+        return instructions;
+    }
+    return `${instructions}\n\nAlso describe the image in one or two sentences. Reply in exactly this format:\nDescription: <description>\nTags: <comma-separated tags>`;
+}
+
+/**
+ * Parse a vision model reply into tags and an optional description
+ * @param responseText The raw text returned by the model
+ * @param describe Whether a description was requested
+ */
+export function parseImageResponse(responseText: string, describe: boolean): ImageTagResult {
+    if (!describe) {
+        return { tags: parseTagList(responseText) };
+    }
+
+    const descriptionMatch = responseText.match(/^\s*description:\s*(.+)$/im);
+    const tagsMatch = responseText.match(/^\s*tags:\s*(.+)$/im);
+
+    return {
+        // Without a Tags line, assume the model ignored the format and sent only tags
+        tags: parseTagList(tagsMatch ? tagsMatch[1] : responseText),
+        description: descriptionMatch ? descriptionMatch[1].trim() : undefined
+    };
+}
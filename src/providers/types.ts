@@ -0,0 +1,109 @@
+import { AIProvider, TagFilesAndNotesSettings } from '../handlers/types';
+import { CancellationToken } from '../libs/cancellation';
+
+/**
+ * Settings keys that hold free-form string values, which provider fields can bind to
+ */
+export type StringSettingKey = {
+    [K in keyof TagFilesAndNotesSettings]: string extends TagFilesAndNotesSettings[K] ? K : never
+}[keyof TagFilesAndNotesSettings];
+
+/**
+ * Describes a single provider setting so the settings tab can render it
+ */
+export interface ProviderSettingField {
+    key: StringSettingKey;
+    name: string;
+    desc: string;
+    /** 'model' renders a dropdown filled from the provider's listModels when available */
+    type: 'text' | 'textarea' | 'dropdown' | 'model';
+    placeholder?: string;
+    options?: Record<string, string>;
+}
+
+/**
+ * Token counts reported by a provider for one request
+ */
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+/**
+ * A request for tags from a provider
+ */
+export interface TagRequest {
+    prompt: string;
+    text: string;
+    /** Ask the model for a JSON response instead of a comma-separated list */
+    structured: boolean;
+    cancellation?: CancellationToken;
+    /** Called with the token usage when the provider reports it */
+    onUsage?: (usage: TokenUsage) => void;
+}
+
+/**
+ * A request for tags describing an image
+ */
+export interface ImageTagRequest {
+    prompt: string;
+    /** Base64 encoded image data without a data: prefix */
+    imageBase64: string;
+    mimeType: string;
+    /** Also ask for a short description of the image */
+    describe: boolean;
+    cancellation?: CancellationToken;
+    /** Called with the token usage when the provider reports it */
+    onUsage?: (usage: TokenUsage) => void;
+}
+
+/**
+ * A request for a free-form reply, such as extracted fields or a summary
+ */
+export interface CompletionRequest {
+    /** System instructions describing the task */
+    system: string;
+    prompt: string;
+    text: string;
+    /** Ask the model for a JSON response */
+    json: boolean;
+    cancellation?: CancellationToken;
+    /** Called with the token usage when the provider reports it */
+    onUsage?: (usage: TokenUsage) => void;
+}
+
+/**
+ * Tags and optional description returned for an image
+ */
+export interface ImageTagResult {
+    tags: string[];
+    description?: string;
+}
+
+/**
+ * A tag generation backend. Each provider lives in its own module and is
+ * registered in the provider registry.
+ */
+export interface TagProvider {
+    id: AIProvider;
+    name: string;
+    settings: ProviderSettingField[];
+    /** Runs inside the plugin without a model: input is never chunked and there is nothing to tune or connect to */
+    offline?: boolean;
+    /** Charges per request, so calls count against the monthly budget */
+    paid?: boolean;
+    /** For providers that may or may not charge, whether they do with the current settings */
+    isPaid?(settings: TagFilesAndNotesSettings): boolean;
+    isConfigured(settings: TagFilesAndNotesSettings): boolean;
+    /** The model the provider will use with the current settings */
+    getModel(settings: TagFilesAndNotesSettings): string;
+    generate(request: TagRequest, settings: TagFilesAndNotesSettings): Promise<string[]>;
+    /** Resolves if the provider can be reached with the current settings, throws otherwise */
+    testConnection(settings: TagFilesAndNotesSettings): Promise<void>;
+    /** Ask the provider which models it offers */
+    listModels?(settings: TagFilesAndNotesSettings): Promise<string[]>;
+    /** Reply to a free-form request; offline providers cannot */
+    complete?(request: CompletionRequest, settings: TagFilesAndNotesSettings): Promise<string>;
+    /** Generate tags from an image with a vision-capable model */
+    generateFromImage?(request: ImageTagRequest, settings: TagFilesAndNotesSettings): Promise<ImageTagResult>;
+}
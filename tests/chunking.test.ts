@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { estimateTokens, splitIntoChunks } from '../src/libs/chunking';
+
+const words = (count: number, word = 'lorem') => Array.from({ length: count }, (_, i) => `${word}${i}`).join(' ');
+
+const expectWithinBudget = (chunks: string[], budget: number) => {
+    chunks.forEach(chunk => expect(estimateTokens(chunk)).toBeLessThanOrEqual(budget));
+};
+
+describe('estimateTokens', () => {
+    it('counts about four characters per token', () => {
+        expect(estimateTokens('')).toBe(0);
+        expect(estimateTokens('abcde')).toBe(2);
+    });
+});
+
+describe('splitIntoChunks', () => {
+    it('keeps text that fits in one chunk', () => {
+        expect(splitIntoChunks('  Short text.  ', 100)).toEqual(['Short text.']);
+        expect(splitIntoChunks('   ', 100)).toEqual([]);
+    });
+
+    it('stays within the token budget', () => {
+        const text = [words(300), words(50, 'ipsum'), words(500, 'dolor')].join('\n\n');
+        const chunks = splitIntoChunks(text, 200);
+        expect(chunks.length).toBeGreaterThan(1);
+        expectWithinBudget(chunks, 200);
+    });
+
+    it('does not lose or reorder words', () => {
+        const text = words(1000);
+        expect(splitIntoChunks(text, 100).join(' ').split(/\s+/)).toEqual(text.split(' '));
+    });
+
+    it('starts a new chunk at a page break or heading when sections are large', () => {
+        const page = words(60);
+        const chunks = splitIntoChunks(`${page}\f${page}\n# Heading\n${page}`, 150);
+        expect(chunks).toHaveLength(3);
+        expect(chunks[2].startsWith('# Heading')).toBe(true);
+        expectWithinBudget(chunks, 150);
+    });
+
+    it('packs small paragraphs together', () => {
+        const paragraphs = Array.from({ length: 20 }, (_, i) => `Paragraph ${i}.`).join('\n\n');
+        const chunks = splitIntoChunks(paragraphs, 40);
+        expect(chunks.length).toBeLessThan(20);
+        expectWithinBudget(chunks, 40);
+    });
+
+    it('cuts a word longer than the whole budget', () => {
+        const chunks = splitIntoChunks('x'.repeat(100), 10);
+        expect(chunks.join('')).toBe('x'.repeat(100));
+        expectWithinBudget(chunks, 10);
+    });
+});
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import {
+    getFrontmatterTags,
+    getFrontmatterValue,
+    hasFrontmatter,
+    removeFrontmatterValue,
+    setFrontmatterTags,
+    setFrontmatterValue,
+    splitFrontmatter
+} from '../src/libs/frontmatter';
+
+describe('CRLF line endings', () => {
+    const note = '---\r\ntitle: Report\r\ntags:\r\n  - a\r\n---\r\nBody\r\n';
+
+    it('reads tags', () => {
+        expect(getFrontmatterTags(note)).toEqual(['a']);
+    });
+
+    it('keeps CRLF when writing', () => {
+        expect(setFrontmatterTags(note, ['a', 'b'])).toBe('---\r\ntitle: Report\r\ntags:\r\n  - a\r\n  - b\r\n---\r\nBody\r\n');
+    });
+
+    it('uses CRLF for new frontmatter in a CRLF note', () => {
+        expect(setFrontmatterTags('Body\r\nmore\r\n', ['a'])).toBe('---\r\ntags:\r\n  - a\r\n---\r\n\r\nBody\r\nmore\r\n');
+    });
+});
+
+describe('tag key aliases', () => {
+    it('reads the tag alias', () => {
+        expect(getFrontmatterTags('---\ntag: [x, y]\n---\n')).toEqual(['x', 'y']);
+    });
+
+    it('keeps the key as the user wrote it', () => {
+        expect(setFrontmatterTags('---\nTag: x\n---\n', ['x', 'z'])).toBe('---\nTag:\n  - x\n  - z\n---\n');
+    });
+
+    it('merges tag and tags when reading and keeps one list when writing', () => {
+        const note = '---\ntag: a\ntitle: T\ntags: [b]\n---\n';
+        expect(getFrontmatterTags(note)).toEqual(['a', 'b']);
+        expect(setFrontmatterTags(note, ['a', 'b'])).toBe('---\ntag:\n  - a\n  - b\ntitle: T\n---\n');
+    });
+
+    it('does not treat the alias as a custom property', () => {
+        const note = '---\ntags: [a]\nkeywords: [b]\n---\n';
+        expect(getFrontmatterTags(note, 'keywords')).toEqual(['b']);
+    });
+});
+
+describe('comments', () => {
+    const note = '---\n# Written by hand\ntitle: Report # the title\ntags: [a]\n# trailing note\n---\n';
+
+    it('keeps comments when tags are replaced', () => {
+        expect(setFrontmatterTags(note, ['b'])).toBe('---\n# Written by hand\ntitle: Report # the title\ntags:\n  - b\n# trailing note\n---\n');
+    });
+
+    it('reads values with inline comments', () => {
+        expect(getFrontmatterValue(note, 'title')).toBe('Report');
+    });
+});
+
+describe('block scalars', () => {
+    const note = '---\ndescription: |\n  First line\n  tags: not a key\ntags:\n  - a\n---\n';
+
+    it('does not read keys inside a block scalar', () => {
+        expect(getFrontmatterTags(note)).toEqual(['a']);
+        expect(getFrontmatterValue(note, 'description')).toBe('First line\ntags: not a key\n');
+    });
+
+    it('leaves the block scalar alone when writing', () => {
+        expect(setFrontmatterTags(note, ['b'])).toBe('---\ndescription: |\n  First line\n  tags: not a key\ntags:\n  - b\n---\n');
+    });
+
+    it('adds a key after a folded scalar', () => {
+        const folded = '---\nsummary: >-\n  one\n  two\n---\n';
+        expect(setFrontmatterValue(folded, 'status', 'done')).toBe('---\nsummary: >-\n  one\n  two\nstatus: done\n---\n');
+    });
+});
+
+describe('anchors and aliases across keys', () => {
+    const note = '---\nbase: &shared [a, b]\ntags: *shared\n---\n';
+
+    it('reads a value through an alias to another key', () => {
+        expect(getFrontmatterTags(note)).toEqual(['a', 'b']);
+    });
+
+    it('replaces the key using the alias', () => {
+        expect(setFrontmatterTags(note, ['c'])).toBe('---\nbase: &shared [a, b]\ntags:\n  - c\n---\n');
+    });
+
+    it('keeps the alias when another key changes', () => {
+        expect(setFrontmatterValue(note, 'status', 'done')).toBe('---\nbase: &shared [a, b]\ntags: *shared\nstatus: done\n---\n');
+    });
+
+    it('refuses to drop an anchor another key still uses', () => {
+        expect(() => setFrontmatterValue(note, 'base', 'x')).toThrow(expect.objectContaining({ code: 'INVALID_FRONTMATTER' }));
+    });
+});
+
+describe('adjacent keys', () => {
+    const note = '---\ntitle: A\ntags:\n- a\n- b\ndate: 2024-01-01\n---\n';
+
+    it('reads unindented list items as part of the key above', () => {
+        expect(getFrontmatterTags(note)).toEqual(['a', 'b']);
+    });
+
+    it('replaces only the tags', () => {
+        expect(setFrontmatterTags(note, ['c'])).toBe('---\ntitle: A\ntags:\n  - c\ndate: 2024-01-01\n---\n');
+    });
+
+    it('removes a key between two others', () => {
+        expect(removeFrontmatterValue(note, 'tags')).toBe('---\ntitle: A\ndate: 2024-01-01\n---\n');
+    });
+
+    it('keeps blank lines between keys out of the value', () => {
+        expect(setFrontmatterTags('---\ntags: [a]\n\ntitle: A\n---\n', ['b'])).toBe('---\ntags:\n  - b\n\ntitle: A\n---\n');
+    });
+});
+
+describe('a stray --- in the body', () => {
+    const note = '---\ntags: [a]\n---\nText\n---\ntags: [not, these]\n---\nMore';
+
+    it('ends the frontmatter at the first closing line', () => {
+        expect(splitFrontmatter(note)?.body).toBe('Text\n---\ntags: [not, these]\n---\nMore');
+        expect(getFrontmatterTags(note)).toEqual(['a']);
+    });
+
+    it('leaves the body alone when writing', () => {
+        expect(setFrontmatterTags(note, ['b'])).toBe('---\ntags:\n  - b\n---\nText\n---\ntags: [not, these]\n---\nMore');
+    });
+
+    it('does not treat a horizontal rule as frontmatter', () => {
+        const body = 'Intro\n---\ntags: [a]\n---\n';
+        expect(hasFrontmatter(body)).toBe(false);
+        expect(getFrontmatterTags(body)).toEqual([]);
+    });
+});
+
+describe('byte order mark', () => {
+    it('reads and writes frontmatter after a BOM', () => {
+        const note = '\uFEFF---\ntags: [a]\n---\n';
+        expect(getFrontmatterTags(note)).toEqual(['a']);
+        expect(setFrontmatterTags(note, ['b'])).toBe('\uFEFF---\ntags:\n  - b\n---\n');
+    });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { formatInlineTagLine, getInlineTags, INLINE_TAG_MARKER, setInlineTags } from '../src/libs/inlineTags';
+
+const line = (tags: string[]) => formatInlineTagLine(tags);
+
+describe('getInlineTags', () => {
+    it('reads only the plugin line, not tags typed elsewhere', () => {
+        const note = `Text with #typed tag\n\n#a #b ${INLINE_TAG_MARKER}\n`;
+        expect(getInlineTags(note)).toEqual(['a', 'b']);
+    });
+
+    it('returns nothing without a plugin line', () => {
+        expect(getInlineTags('Text with #typed tag')).toEqual([]);
+    });
+});
+
+describe('setInlineTags', () => {
+    it('adds a line at the bottom of the body', () => {
+        expect(setInlineTags('Text\n', ['a'], 'bottom')).toBe(`Text\n\n${line(['a'])}\n`);
+    });
+
+    it('adds a line at the top of the body, below the frontmatter', () => {
+        expect(setInlineTags('---\ntitle: T\n---\nText', ['a'], 'top'))
+            .toBe(`---\ntitle: T\n---\n${line(['a'])}\n\nText`);
+    });
+
+    it('rewrites its own line instead of adding another', () => {
+        const once = setInlineTags('Text\n', ['a'], 'bottom');
+        const twice = setInlineTags(once, ['a', 'b'], 'bottom');
+        expect(twice).toBe(`Text\n\n${line(['a', 'b'])}\n`);
+        expect(twice.split(INLINE_TAG_MARKER)).toHaveLength(2);
+    });
+
+    it('moves the line when the position changes', () => {
+        const bottom = setInlineTags('Text\n', ['a'], 'bottom');
+        expect(setInlineTags(bottom, ['a'], 'top')).toBe(`${line(['a'])}\n\nText\n`);
+    });
+
+    it('removes the line and its blank line for an empty list', () => {
+        expect(setInlineTags(`Text\n\n${line(['a'])}\n`, [], 'bottom')).toBe('Text\n');
+    });
+
+    it('leaves tags the user typed alone', () => {
+        expect(setInlineTags('Text #typed\n', ['a'], 'bottom')).toBe(`Text #typed\n\n${line(['a'])}\n`);
+    });
+
+    it('keeps CRLF line endings', () => {
+        expect(setInlineTags('Text\r\nMore\r\n', ['a'], 'bottom')).toBe(`Text\r\nMore\r\n\r\n${line(['a'])}\r\n`);
+    });
+});
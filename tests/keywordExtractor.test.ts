@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { buildCorpusStats, extractKeywords, KeywordOptions, tokenize } from '../src/libs/keywordExtractor';
+
+const options: KeywordOptions = {
+    maxTags: 5,
+    maxWordsPerTag: 2,
+    languagePreference: 'uk'
+};
+
+describe('tokenize', () => {
+    it('lowercases words and trims outer apostrophes and hyphens', () => {
+        expect(tokenize("The 'Well-Known' author's -draft-")).toEqual(['the', 'well-known', "author's", 'draft']);
+    });
+});
+
+describe('extractKeywords', () => {
+    it('returns no more than maxTags tags', () => {
+        const text = 'Gardens. Orchards. Vineyards. Meadows. Forests. Rivers. Mountains.';
+        expect(extractKeywords(text, { ...options, maxTags: 3 })).toHaveLength(3);
+    });
+
+    it('splits long phrases into windows of maxWordsPerTag words', () => {
+        const tags = extractKeywords('Solar panel installation guide.', { ...options, maxWordsPerTag: 2 });
+        expect(tags.length).toBeGreaterThan(0);
+        tags.forEach(tag => expect(tag.split('-').length).toBeLessThanOrEqual(2));
+        expect(tags).toContain('solar-panel');
+    });
+
+    it('keeps single words when maxWordsPerTag is 1', () => {
+        const tags = extractKeywords('Solar panel installation guide.', { ...options, maxWordsPerTag: 1 });
+        expect(tags.every(tag => !tag.includes('-'))).toBe(true);
+    });
+
+    it('ends a phrase at a stopword', () => {
+        const tags = extractKeywords('Climate change and ocean currents', { ...options, maxWordsPerTag: 3 });
+        expect(tags).toEqual(expect.arrayContaining(['climate-change', 'ocean-currents']));
+        expect(tags.some(tag => tag.includes('change-ocean'))).toBe(false);
+    });
+
+    it('merges UK and US spellings into the preferred one', () => {
+        const text = 'Colour theory. Color theory. Colour theory.';
+        expect(extractKeywords(text, { ...options, maxWordsPerTag: 2 })).toEqual(['colour-theory']);
+        expect(extractKeywords(text, { ...options, maxWordsPerTag: 2, languagePreference: 'us' })).toEqual(['color-theory']);
+    });
+
+    it('is deterministic', () => {
+        const text = 'Beekeeping basics. Hive inspection. Honey harvest. Queen rearing.';
+        expect(extractKeywords(text, options)).toEqual(extractKeywords(text, options));
+    });
+});
+
+describe('buildCorpusStats', () => {
+    it('counts each word once per document', () => {
+        const stats = buildCorpusStats(['apple apple pear', 'apple plum']);
+        expect(stats.documentCount).toBe(2);
+        expect(stats.documentFrequency.get('apple')).toBe(2);
+        expect(stats.documentFrequency.get('pear')).toBe(1);
+    });
+
+    it('ranks words that are rare in the corpus above common ones', () => {
+        const text = 'Project budget. Project timeline.';
+        const single = { ...options, maxTags: 1, maxWordsPerTag: 1 };
+        const corpus = buildCorpusStats([
+            'project notes', 'project plan', 'project review', 'project budget', 'meeting'
+        ]);
+
+        expect(extractKeywords(text, single)).toEqual(['project']);
+        expect(extractKeywords(text, { ...single, corpus })).toEqual(['timeline']);
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, TagFilesAndNotesSettings } from '../src/handlers/types';
+import { getAttachmentFolder, getNoteFolder, getNoteName, joinPath, NoteSource } from '../src/libs/notePaths';
+
+const settings = (changes: Partial<TagFilesAndNotesSettings>): TagFilesAndNotesSettings => ({
+    ...DEFAULT_SETTINGS,
+    notesDirectory: '/Notes/',
+    ...changes
+});
+
+const source: NoteSource = {
+    basename: 'Quarterly report',
+    extension: 'pdf',
+    folder: 'Work/Reports',
+    ctime: new Date(2024, 0, 15).getTime()
+};
+
+describe('joinPath', () => {
+    it('ignores empty parts and stray slashes', () => {
+        expect(joinPath('/Notes/', '', 'Work/')).toBe('Notes/Work');
+        expect(joinPath('/', '')).toBe('');
+    });
+});
+
+describe('getNoteFolder', () => {
+    it('uses the file\'s own folder for same', () => {
+        expect(getNoteFolder('Work/Reports', settings({ notesLocation: 'same' }))).toBe('Work/Reports');
+        expect(getNoteFolder('/', settings({ notesLocation: 'same' }))).toBe('');
+    });
+
+    it('uses the notes folder for fixed', () => {
+        expect(getNoteFolder('Work/Reports', settings({ notesLocation: 'fixed' }))).toBe('Notes');
+    });
+
+    it('recreates the file\'s folders inside the notes folder for mirror', () => {
+        expect(getNoteFolder('Work/Reports', settings({ notesLocation: 'mirror' }))).toBe('Notes/Work/Reports');
+        expect(getNoteFolder('/', settings({ notesLocation: 'mirror' }))).toBe('Notes');
+    });
+});
+
+describe('getNoteName', () => {
+    it('fills in the pattern', () => {
+        expect(getNoteName(source, '{{basename}} ({{extension}}, {{folder}})')).toBe('Quarterly report (pdf, Reports)');
+        expect(getNoteName(source, '{{created:YYYY-MM-DD}} {{basename}}')).toBe('2024-01-15 Quarterly report');
+    });
+
+    it('falls back to the file name for an empty pattern or result', () => {
+        expect(getNoteName(source, '  ')).toBe('Quarterly report');
+        expect(getNoteName({ ...source, folder: '/' }, '{{folder}}')).toBe('Quarterly report');
+    });
+
+    it('replaces characters that are not allowed in note names', () => {
+        expect(getNoteName({ ...source, basename: 'Q1: a/b #2 [draft]' }, '{{basename}}')).toBe('Q1- a-b -2 -draft-');
+    });
+});
+
+describe('getAttachmentFolder', () => {
+    it('puts attachments inside the note folder', () => {
+        expect(getAttachmentFolder('Notes/Work', settings({ attachmentsFolder: 'attachments' }))).toBe('Notes/Work/attachments');
+        expect(getAttachmentFolder('', settings({ attachmentsFolder: '' }))).toBe('');
+    });
+});
@@ -0,0 +1,26 @@
+/**
+ * Stand-in for the parts of the Obsidian API the tested modules import.
+ * Obsidian's YAML helpers are backed by js-yaml as well, and its moment
+ * export is the moment package the obsidian types depend on.
+ */
+
+import yaml from 'js-yaml';
+import moment from 'moment';
+
+export { moment };
+
+export function parseYaml(text: string): any {
+    return yaml.load(text);
+}
+
+export function stringifyYaml(value: unknown): string {
+    return yaml.dump(value);
+}
+
+export function normalizePath(path: string): string {
+    return path.replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+}
+
+export class Notice {
+    constructor(public message: string, public timeout?: number) {}
+}
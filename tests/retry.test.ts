@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { retryWithDelay } from '../src/libs/utils';
+import { CancellationToken, RequestControl } from '../src/libs/cancellation';
+
+const rateLimited = () => Promise.reject(new Error('API rate limit exceeded (429). Please try again later.'));
+
+describe('retryWithDelay', () => {
+    it('retries rate limited attempts', async () => {
+        let calls = 0;
+        const result = await retryWithDelay(() => ++calls < 3 ? rateLimited() : Promise.resolve('done'), 2, 1, false);
+        expect(result).toBe('done');
+        expect(calls).toBe(3);
+    });
+
+    it('stops waiting to retry as soon as it is cancelled', async () => {
+        const cancellation = new CancellationToken();
+        const started = Date.now();
+        setTimeout(() => cancellation.cancel(), 10);
+
+        await expect(retryWithDelay(rateLimited, 2, 10000, false, { cancellation }))
+            .rejects.toMatchObject({ code: 'CANCELLED' });
+        expect(Date.now() - started).toBeLessThan(1000);
+    });
+
+    it('does not wait past the timeout for the whole call', async () => {
+        let calls = 0;
+        await expect(retryWithDelay(() => { calls++; return rateLimited(); }, 2, 5000, false, { timeoutMs: 200 }))
+            .rejects.toThrow('429');
+        expect(calls).toBe(1);
+    });
+
+    it('gives each attempt only the time that is left', async () => {
+        const limits: Array<number | undefined> = [];
+        let calls = 0;
+        await retryWithDelay((control: RequestControl) => {
+            limits.push(control.timeoutMs);
+            return ++calls < 2 ? rateLimited() : Promise.resolve('done');
+        }, 2, 50, false, { timeoutMs: 1000 });
+
+        expect(limits[0]).toBeLessThanOrEqual(1000);
+        expect(limits[1]).toBeLessThanOrEqual(1000 - 50);
+    });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { applyTagHierarchy, buildHierarchyInstruction, parseTagRoots, splitTagPath } from '../src/libs/tagHierarchy';
+
+describe('splitTagPath', () => {
+    it('drops the # and empty segments', () => {
+        expect(splitTagPath('#topic//machine-learning/')).toEqual(['topic', 'machine-learning']);
+    });
+});
+
+describe('parseTagRoots', () => {
+    it('accepts trailing slashes and spaces', () => {
+        expect(parseTagRoots(' topic/, type/ ,, #area/work/ ')).toEqual(['topic', 'type', 'area/work']);
+    });
+});
+
+describe('applyTagHierarchy', () => {
+    const options = { roots: ['topic', 'type'], maxDepth: 3 };
+
+    it('keeps tags that already start with a root, in any case', () => {
+        expect(applyTagHierarchy(['topic/ai', 'Type/article'], options)).toEqual(['topic/ai', 'Type/article']);
+    });
+
+    it('puts other tags under the first root', () => {
+        expect(applyTagHierarchy(['ai', 'topical/news'], options)).toEqual(['topic/ai', 'topic/topical/news']);
+    });
+
+    it('drops a bare root', () => {
+        expect(applyTagHierarchy(['topic', 'type/'], options)).toEqual([]);
+    });
+
+    it('cuts tags to the maximum depth and removes the duplicates that leaves', () => {
+        expect(applyTagHierarchy(['topic/ai/llm/agents', 'topic/ai/llm/tools'], options)).toEqual(['topic/ai/llm']);
+    });
+
+    it('allows a level below the deepest root even when the limit is lower', () => {
+        const deepRoot = { roots: ['area/work'], maxDepth: 1 };
+        expect(applyTagHierarchy(['meetings/weekly'], deepRoot)).toEqual(['area/work/meetings']);
+    });
+
+    it('only limits the depth when there are no roots', () => {
+        expect(applyTagHierarchy(['a/b/c', '#d'], { roots: [], maxDepth: 2 })).toEqual(['a/b', 'd']);
+    });
+});
+
+describe('buildHierarchyInstruction', () => {
+    it('names the depth and the roots', () => {
+        expect(buildHierarchyInstruction({ roots: ['topic'], maxDepth: 2 })).toBe(
+            'Use nested tags written as parent/child, with at most 2 levels separated by "/". '
+            + 'The word limit applies to each level, not the whole tag. '
+            + 'Start every tag with one of these parents: topic/.');
+    });
+});
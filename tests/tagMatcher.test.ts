@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { editDistance, getTagMatchKey, singularize, snapTags, TagMatchOptions } from '../src/libs/tagMatcher';
+
+const options: TagMatchOptions = { languagePreference: 'uk', maxDistance: 2 };
+
+describe('singularize', () => {
+    it('handles common plural endings', () => {
+        expect(singularize('libraries')).toBe('library');
+        expect(singularize('boxes')).toBe('box');
+        expect(singularize('branches')).toBe('branch');
+        expect(singularize('notes')).toBe('note');
+    });
+
+    it('leaves words that only look plural alone', () => {
+        expect(singularize('class')).toBe('class');
+        expect(singularize('status')).toBe('status');
+        expect(singularize('analysis')).toBe('analysis');
+        expect(singularize('bus')).toBe('bus');
+    });
+});
+
+describe('editDistance', () => {
+    it('counts insertions, deletions and substitutions', () => {
+        expect(editDistance('kitten', 'sitting', 5)).toBe(3);
+        expect(editDistance('note', 'note', 2)).toBe(0);
+    });
+
+    it('gives up once the limit is exceeded', () => {
+        expect(editDistance('kitten', 'sitting', 1)).toBe(2);
+        expect(editDistance('a', 'abcdef', 2)).toBe(3);
+    });
+});
+
+describe('getTagMatchKey', () => {
+    it('ignores case, separators, spelling variants and plurals', () => {
+        const key = getTagMatchKey('machine-learning', 'uk');
+        expect(getTagMatchKey('#MachineLearning', 'uk')).toBe(key);
+        expect(getTagMatchKey('machine_learnings', 'uk')).toBe(key);
+        expect(getTagMatchKey('color', 'uk')).toBe(getTagMatchKey('Colours', 'uk'));
+    });
+
+    it('keeps nested levels apart', () => {
+        expect(getTagMatchKey('topic/Data-Sets', 'uk')).toBe('topic/dataset');
+    });
+});
+
+describe('snapTags', () => {
+    const existing = new Map([['machine-learning', 4], ['colour', 2], ['cat', 1], ['photograph', 3]]);
+
+    it('replaces variants with the existing tag', () => {
+        const result = snapTags(['MachineLearning', 'colors'], existing, options);
+        expect(result.tags).toEqual(['machine-learning', 'colour']);
+        expect(result.snapped).toEqual([
+            { suggested: 'MachineLearning', existing: 'machine-learning' },
+            { suggested: 'colors', existing: 'colour' }
+        ]);
+        expect(result.created).toEqual([]);
+    });
+
+    it('matches small typos in longer tags', () => {
+        expect(snapTags(['machine-lerning'], existing, options).tags).toEqual(['machine-learning']);
+    });
+
+    it('does not fuzzy match short tags', () => {
+        expect(snapTags(['car'], existing, options)).toEqual({ tags: ['car'], snapped: [], created: ['car'] });
+    });
+
+    it('allows about one edit per four characters', () => {
+        // Nine letters allow two edits from "photograph", but not three
+        expect(snapTags(['fotograph'], existing, options).tags).toEqual(['photograph']);
+        expect(snapTags(['fotogrph'], existing, options).tags).toEqual(['fotogrph']);
+    });
+
+    it('only matches variants when the distance is 0', () => {
+        const exact = { ...options, maxDistance: 0 };
+        expect(snapTags(['machine-lerning'], existing, exact).tags).toEqual(['machine-lerning']);
+        expect(snapTags(['Machine Learnings'], existing, exact).tags).toEqual(['machine-learning']);
+    });
+
+    it('drops suggestions that snap to the same tag', () => {
+        expect(snapTags(['colour', 'colors'], existing, options).tags).toEqual(['colour']);
+    });
+
+    it('prefers the most used tag when two are equally close', () => {
+        const tied = new Map([['data-set', 1], ['dataset', 5]]);
+        expect(snapTags(['data-sets'], tied, options).tags).toEqual(['dataset']);
+    });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { renderNoteTemplate, renderTemplate } from '../src/libs/template';
+
+// Local time, so formatting does not depend on the machine's time zone
+const created = new Date(2024, 2, 5, 14, 30);
+
+describe('renderTemplate variables', () => {
+    it('fills in variables and leaves unknown ones as they are', () => {
+        expect(renderTemplate('{{title}} by {{ author }} {{missing}}', { title: 'Report', author: 'Sam' }))
+            .toBe('Report by Sam {{missing}}');
+    });
+
+    it('formats dates with the default and a given format', () => {
+        expect(renderTemplate('{{created}}', { created })).toBe('2024-03-05');
+        expect(renderTemplate('{{created:YYYY-MM}} {{created:HH:mm}}', { created })).toBe('2024-03 14:30');
+    });
+
+    it('joins lists with commas in text', () => {
+        expect(renderTemplate('{{tags}}', { tags: ['a', 'b'] })).toBe('a, b');
+    });
+
+    it('writes nothing for null values', () => {
+        expect(renderTemplate('[{{summary}}]', { summary: null })).toBe('[]');
+    });
+});
+
+describe('renderTemplate blocks', () => {
+    it('renders #if and else branches', () => {
+        const template = '{{#if summary}}Summary: {{summary}}{{else}}No summary{{/if}}';
+        expect(renderTemplate(template, { summary: 'Short' })).toBe('Summary: Short');
+        expect(renderTemplate(template, { summary: '  ' })).toBe('No summary');
+        expect(renderTemplate(template, { summary: [] as string[] })).toBe('No summary');
+    });
+
+    it('loops over lists with #each', () => {
+        expect(renderTemplate('{{#each points}}{{@index}}. {{this}}\n{{/each}}', { points: ['One', 'Two'] }))
+            .toBe('1. One\n2. Two\n');
+    });
+
+    it('does not leave blank lines for block tags on their own lines', () => {
+        const template = 'Start\n{{#if flag}}\nShown\n{{/if}}\nEnd';
+        expect(renderTemplate(template, { flag: true })).toBe('Start\nShown\nEnd');
+        expect(renderTemplate(template, { flag: false })).toBe('Start\nEnd');
+    });
+
+    it('rejects unclosed and mismatched blocks', () => {
+        expect(() => renderTemplate('{{#if a}}x', {})).toThrow(expect.objectContaining({ code: 'INVALID_TEMPLATE' }));
+        expect(() => renderTemplate('{{#if a}}x{{/each}}', {})).toThrow(expect.objectContaining({ code: 'INVALID_TEMPLATE' }));
+    });
+});
+
+describe('YAML quoting', () => {
+    it('quotes values that would not be valid YAML', () => {
+        expect(renderTemplate('title: {{title}}', { title: 'Notes: part 1' }, { yaml: true })).toBe("title: 'Notes: part 1'");
+        expect(renderTemplate('title: {{title}}', { title: 'Plain' }, { yaml: true })).toBe('title: Plain');
+    });
+
+    it('keeps multi-line text on one line', () => {
+        expect(renderTemplate('summary: {{summary}}', { summary: 'One\nTwo' }, { yaml: true })).toBe('summary: "One\\nTwo"');
+    });
+
+    it('writes lists as flow sequences', () => {
+        expect(renderTemplate('aliases: {{aliases}}', { aliases: ['a b', 'c'] }, { yaml: true })).toBe('aliases: ["a b","c"]');
+    });
+
+    it('only quotes values in the frontmatter of a note template', () => {
+        const template = '---\ntitle: {{title}}\n---\n# {{title}}\n';
+        expect(renderNoteTemplate(template, { title: 'Notes: part 1' })).toBe("---\ntitle: 'Notes: part 1'\n---\n# Notes: part 1\n");
+    });
+});
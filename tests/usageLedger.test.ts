@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, TagFilesAndNotesSettings } from '../src/handlers/types';
+import { estimateCost, getChargedPrice } from '../src/handlers/usageLedger';
+
+const settings: TagFilesAndNotesSettings = {
+    ...DEFAULT_SETTINGS,
+    modelPrices: 'cheap-model: 0.10, 0.40\nbig-model: 2.00, 8.00'
+};
+
+describe('getChargedPrice', () => {
+    it('uses the configured price', () => {
+        expect(getChargedPrice(settings, 'Cheap-Model', true)).toEqual({ input: 0.1, output: 0.4 });
+    });
+
+    it('charges an unpriced paid model at the highest listed price', () => {
+        expect(getChargedPrice(settings, 'new-model', true)).toEqual({ input: 2, output: 8 });
+    });
+
+    it('leaves unpriced models of free providers free', () => {
+        expect(getChargedPrice(settings, 'new-model', false)).toBeNull();
+    });
+
+    it('still charges an unpriced paid model when no prices are listed', () => {
+        const price = getChargedPrice({ ...settings, modelPrices: '' }, 'new-model', true);
+        expect(price && price.input + price.output).toBeGreaterThan(0);
+    });
+});
+
+describe('estimateCost', () => {
+    it('counts an unpriced paid model against the budget', () => {
+        expect(estimateCost(settings, 'new-model', 1000000, 1000000, true)).toBe(10);
+        expect(estimateCost(settings, 'new-model', 1000000, 1000000)).toBe(0);
+    });
+});
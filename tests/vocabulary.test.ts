@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { applyVocabulary, buildVocabularyInstruction, parseVocabulary, VOCABULARY_TEMPLATE } from '../src/libs/vocabulary';
+
+const vocabulary = parseVocabulary(VOCABULARY_TEMPLATE);
+
+describe('parseVocabulary', () => {
+    it('reads allowed tags, synonyms and blocked terms from the template', () => {
+        expect(vocabulary.allowed).toEqual(['machine-learning', 'productivity']);
+        expect(vocabulary.synonyms.get('ml')).toBe('machine-learning');
+        expect(vocabulary.synonyms.get('gtd')).toBe('productivity');
+        expect(vocabulary.blocked).toEqual(['misc', 'untitled']);
+    });
+
+    it('strips leading # from tags and synonyms', () => {
+        const parsed = parseVocabulary('#research: #papers\n!#todo');
+        expect(parsed.allowed).toEqual(['research']);
+        expect(parsed.synonyms.get('papers')).toBe('research');
+        expect(parsed.blocked).toEqual(['todo']);
+    });
+});
+
+describe('buildVocabularyInstruction', () => {
+    it('asks for listed tags only in strict mode', () => {
+        expect(buildVocabularyInstruction(vocabulary, true)).toBe(
+            'Only use tags from this list: machine-learning, productivity. Never use these tags: misc, untitled.');
+        expect(buildVocabularyInstruction(vocabulary, false)).toMatch(/^Prefer tags from this list when they fit/);
+    });
+});
+
+describe('applyVocabulary', () => {
+    it('maps synonyms to their allowed tag', () => {
+        const result = applyVocabulary(['ML', 'Neural Networks', 'cooking'], vocabulary, false, 'uk');
+        expect(result.tags).toEqual(['machine-learning', 'cooking']);
+        expect(result.mapped).toEqual([
+            { suggested: 'ML', allowed: 'machine-learning' },
+            { suggested: 'Neural Networks', allowed: 'machine-learning' }
+        ]);
+        expect(result.dropped).toEqual([]);
+    });
+
+    it('writes allowed tags as the vocabulary spells them', () => {
+        expect(applyVocabulary(['MachineLearning', 'Productivities'], vocabulary, true, 'uk').tags)
+            .toEqual(['machine-learning', 'productivity']);
+    });
+
+    it('drops tags outside the vocabulary in strict mode', () => {
+        const result = applyVocabulary(['gtd', 'cooking'], vocabulary, true, 'uk');
+        expect(result.tags).toEqual(['productivity']);
+        expect(result.dropped).toEqual(['cooking']);
+    });
+
+    it('drops blocked tags in either mode', () => {
+        expect(applyVocabulary(['Misc', 'cooking'], vocabulary, false, 'uk')).toEqual({
+            tags: ['cooking'],
+            mapped: [],
+            dropped: ['Misc']
+        });
+    });
+});
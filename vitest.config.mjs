@@ -0,0 +1,14 @@
+import { defineConfig } from "vitest/config";
+import { fileURLToPath } from "url";
+
+export default defineConfig({
+	resolve: {
+		alias: {
+			// The obsidian package only ships types; tests use a small stand-in
+			obsidian: fileURLToPath(new URL("./tests/obsidian.ts", import.meta.url)),
+		},
+	},
+	test: {
+		include: ["tests/**/*.test.ts"],
+	},
+});